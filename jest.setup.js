@@ -0,0 +1,2 @@
+process.env.STORAGE_BACKEND = "memory";
+process.env.PUSH_PROVIDER = "mock";
@@ -1,72 +1,133 @@
 // src/controllers/sendPushController.ts
 import { Request, Response } from 'express';
-import { getFirestore, getMessaging, sendNotification, sendWebPushNotification } from '../config/firebase';
+import { v4 as uuidv4 } from 'uuid';
+import { getRepositories } from '../repositories';
+import { isInvalidTokenCode } from '../push';
+import { AuthenticatedRequest } from '../types';
+import { isSubscriptionPaused } from '../services/consentService';
+import { getActiveDevices } from '../services/deviceService';
+import { buildPushPayload, deliverToSubscription } from '../services/deliveryService';
+import { createAckToken, recordDeliveryOutcome, recordNotification } from '../services/notificationLogService';
+import { getQuietHoursDecision } from '../services/quietHoursService';
+import { consumeQuota, describeQuotaExceeded } from '../services/quotaService';
+import { scheduleNotification } from '../services/schedulerService';
 
 export async function sendPushNotification(req: Request, res: Response) {
-  const { userId, origin, message } = req.body;
-  console.log('Request data:', { userId, origin, message });
+  const { userId, message } = req.body;
+  // Test sends target the key's own origin; any origin in the body is ignored
+  const origin = (req as AuthenticatedRequest).origin;
 
   if (!userId || !origin) {
     return res.status(400).json({ error: 'Missing userId or origin' });
   }
 
   const userKey = userId + '-' + Buffer.from(origin).toString('base64');
-  console.log('Generated userKey:', userKey);
-  console.log('Looking for document with ID:', userKey);
-  
-  const doc = await getFirestore().collection('subscriptions').doc(userKey).get();
-  console.log('Document exists:', doc.exists);
-  
-  if (!doc.exists) {
-    console.log('Document not found. Available documents might have different IDs.');
+  console.log(`📤 Test notification request from ${origin} for userKey: ${userKey.substring(0, 8)}...`);
+
+  const sub = await getRepositories().subscriptions.get(userKey);
+  if (!sub) {
     return res.status(404).json({ error: 'Subscription not found' });
   }
 
-  const sub = doc.data();
+  // Test sends get the same consent, pause and quiet hours checks as /notifications/send
+  if (!sub.permissions?.[origin]?.granted) {
+    return res.status(403).json({
+      error: 'Permission Denied',
+      message: 'Origin does not have permission to send notifications to this user'
+    });
+  }
 
-  if (!sub) {
-    return res.status(404).json({ error: 'Subscription not found' });
+  const devices = getActiveDevices(sub);
+  if (devices.length === 0) {
+    return res.status(400).json({ error: 'Incomplete subscription data' });
   }
 
-  console.log('Processing push notification for user:', userId);
-  console.log('Subscription data:', sub);
+  if (isSubscriptionPaused(sub)) {
+    return res.status(403).json({
+      error: 'Notifications Paused',
+      message: 'User has paused notifications'
+    });
+  }
 
   try {
-    if (sub.fcmToken) {
-      console.log('Using FCM token:', sub.fcmToken);
-      await getMessaging().send({
-        token: sub.fcmToken,
-        notification: {
-          title: 'Metanet Notification',
-          body: message || 'Test push from backend!',
-        },
+    const notification = {
+      title: 'Metanet Notification',
+      body: message || 'Test push from backend!',
+      icon: '/icon-192x192.png',
+      badge: 1
+    };
+
+    const decision = getQuietHoursDecision(sub);
+    if (decision.action === 'defer') {
+      const deferred = await scheduleNotification({
+        messageId: uuidv4(),
+        userKey,
+        origin,
+        notification,
+        sendAt: decision.until
+      });
+      console.log(`🌙 Test notification deferred until ${new Date(decision.until).toISOString()} for quiet hours`);
+      return res.status(202).json({
+        success: true,
+        messageId: deferred.messageId,
+        scheduled: true,
+        deferred: true,
+        sendAt: decision.until
       });
-      return res.json({ success: true, method: 'FCM' });
-    } else if (sub.endpoint && sub.keys) {
-      console.log('Sending Web Push notification');
-      console.log('Endpoint:', sub.endpoint);
-      console.log('Keys:', sub.keys);
-      
-      const webPushPayload = {
-        title: 'Metanet Web Push',
-        body: message || 'Test Web Push from backend!',
-        icon: '/icon-192x192.png',
-        badge: 1
-      };
+    }
+
+    // Test sends count against the same quotas as every other send
+    const quota = await consumeQuota(origin, userKey, (req as AuthenticatedRequest).apiKeyInfo?.quotas);
+    if (quota) {
+      const retryAfter = Math.max(Math.ceil((quota.resetAt - Date.now()) / 1000), 1);
+      console.warn(`🚦 ${origin} hit its ${quota.scope} ${quota.window} quota for ${userKey.substring(0, 8)}...`);
+      res.set('Retry-After', String(retryAfter));
+      return res.status(429).json({
+        error: 'Too Many Requests',
+        message: describeQuotaExceeded(quota),
+        quota,
+        retryAfter
+      });
+    }
 
-      const webPushSubscription = {
-        endpoint: sub.endpoint as string,
-        keys: {
-          p256dh: sub.keys.p256dh as string,
-          auth: sub.keys.auth as string
-        }
-      };
-      
-      await sendWebPushNotification(webPushSubscription, webPushPayload);
-      return res.json({ success: true, method: 'WebPush' });
-    } else {
-      return res.status(400).json({ error: 'Incomplete subscription data' });
+    // Test sends are logged and acknowledged like any other notification
+    const messageId = uuidv4();
+    await recordNotification(
+      {
+        messageId,
+        userKey,
+        origin,
+        title: notification.title,
+        body: notification.body,
+        timestamp: Date.now()
+      },
+      'queued'
+    );
+
+    console.log(`Sending test notification to ${devices.length} device(s)`);
+    const deliveries = await deliverToSubscription({
+      messageId,
+      userKey,
+      origin,
+      subscription: sub,
+      payload: buildPushPayload(notification, origin, messageId, { silent: decision.silent })
+    });
+    await recordDeliveryOutcome(messageId, deliveries);
+
+    if (!deliveries.some((delivery) => delivery.success || delivery.retrying)) {
+      const allTokensInvalid = deliveries.every((delivery) => isInvalidTokenCode(delivery.error?.code || ''));
+      return res.status(allTokensInvalid ? 410 : 500).json({
+        error: allTokensInvalid ? 'Invalid Token' : 'Push failed',
+        messageId,
+        deliveries
+      });
     }
+    return res.json({
+      success: true,
+      messageId,
+      ackToken: createAckToken(messageId),
+      deliveries
+    });
   } catch (error: any) {
     console.error('❌ Push send error:', error);
     return res.status(500).json({ error: 'Push failed', details: error.message });
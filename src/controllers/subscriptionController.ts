@@ -1,50 +1,131 @@
 // controllers/subscriptionController.ts
 
 import { Request, Response } from "express";
-import { getFirestore } from "../config/firebase";
-import * as admin from "firebase-admin";
+import { getRepositories } from "../repositories";
+import { AuthenticatedRequest, ConsentSource, UserSubscription } from "../types";
+import { getNextExpiration, upsertDevice } from "../services/deviceService";
+import { getUserSubscriptions, recordConsentEvent } from "../services/consentService";
+import { isValidTimezone } from "../services/quietHoursService";
+import { qualifyTopic } from "../services/topicService";
 
 export const registerSubscription = async (req: Request, res: Response) => {
   try {
-    const db = getFirestore();
+    const { subscriptions } = getRepositories();
 
+    // The body was validated by the route's registration schema
     const {
       endpoint,
       keys,
       userId,
       deviceInfo,
       fcmToken,
+      topics,
+      expirationTime,
+      timezone,
     } = req.body;
 
-    const origin = req.get('Origin') || req.headers['origin'] || req.headers['host'];
-    const userKey = `${userId}-${Buffer.from(origin || '').toString("base64")}`;
+    const origin = (req as AuthenticatedRequest).origin || '';
 
-    if (!fcmToken) {
-      return res.status(400).json({ error: "Missing FCM token" });
+    // Wallet registrations are made under the identity key the wallet proved
+    const identityKey = (req as AuthenticatedRequest).identityKey;
+    if (identityKey && userId && userId !== identityKey) {
+      return res.status(403).json({ error: "Forbidden", message: "userId must match the authenticated identity key" });
     }
+    if (!identityKey && process.env.REQUIRE_VERIFIED_IDENTITY === "true") {
+      return res.status(403).json({ error: "Forbidden", message: "Subscriptions must be registered by the user's wallet" });
+    }
+    const subscriberId: string = identityKey || userId;
+    const userKey = `${subscriberId}-${Buffer.from(origin).toString("base64")}`;
 
-    const subscriptionData = {
-      endpoint,
-      keys,
-      fcmToken,
+    if (timezone !== undefined && !isValidTimezone(timezone)) {
+      return res.status(400).json({ error: "Invalid timezone" });
+    }
+
+    // PushSubscription.toJSON() gives epoch milliseconds, or null when it never expires
+    const expiresAt: number | undefined = expirationTime ? expirationTime.getTime() : undefined;
+
+    const existing = await subscriptions.get(userKey);
+    const now = Date.now();
+
+    // Only the wallet may add devices once it has claimed the subscription
+    if (existing?.identityVerified && !identityKey) {
+      return res.status(403).json({ error: "Forbidden", message: "This subscription is managed by the user's wallet" });
+    }
+
+    // A site registering again must not undo the user's revocation; only the
+    // wallet can grant the permission back
+    const permission = existing?.permissions?.[origin];
+    const source: ConsentSource = identityKey ? "user" : "site";
+    const keepsRevocation = permission?.granted === false && source === "site";
+    const grants = !permission?.granted && !keepsRevocation;
+
+    // Each device gets its own entry so a second phone does not replace the first
+    const devices = upsertDevice(
+      existing,
+      {
+        fcmToken,
+        ...(endpoint && { endpoint }),
+        ...(keys && { keys }),
+        ...(deviceInfo && { deviceInfo }),
+        ...(expiresAt !== undefined && { expirationTime: expiresAt }),
+      },
+      now,
+    );
+
+    // A new origin starts out with the pause and quiet hours the user set on
+    // their other subscriptions
+    const settingsSource =
+      existing ||
+      (subscriberId ? (await getUserSubscriptions(subscriberId))[0]?.data : undefined);
+    const timezoneName: string | undefined = timezone || settingsSource?.timezone;
+
+    const subscriptionData: UserSubscription = {
+      userKey,
       origin,
-      userId,
-      platform: deviceInfo?.platform || "unknown",
-      deviceInfo: deviceInfo || {},
-      timestamp: Date.now(),
+      userId: subscriberId,
+      ...(identityKey && { identityVerified: true }),
+      devices,
+      topics: Array.from(
+        new Set([
+          ...(existing?.topics || []),
+          ...(topics || []).map((topic: string) => qualifyTopic(origin, topic)),
+        ]),
+      ),
+      nextExpirationAt: getNextExpiration(devices),
+      ...(settingsSource?.pausedAt && {
+        pausedAt: settingsSource.pausedAt,
+        pausedUntil: settingsSource.pausedUntil ?? null,
+      }),
+      ...(timezoneName && { timezone: timezoneName }),
+      ...(settingsSource?.quietHours && { quietHours: settingsSource.quietHours }),
+      ...(settingsSource?.doNotDisturb && { doNotDisturb: true }),
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
       active: true,
       permissions: {
-        [origin || '']: {
-          granted: true,
-          timestamp: Date.now(),
-        },
+        ...existing?.permissions,
+        ...(grants && { [origin]: { granted: true, timestamp: now, source } }),
       },
     };
 
-    await db.collection("subscriptions").doc(userKey).set(subscriptionData, { merge: true });
+    await subscriptions.set(userKey, subscriptionData);
+
+    if (grants) {
+      await recordConsentEvent("permission_granted", {
+        userId: subscriberId,
+        userKey,
+        origin,
+        source,
+      });
+    }
 
     console.log(`✅ Subscription registered for ${userKey}`);
-    return res.status(200).json({ success: true, userKey });
+    return res.status(200).json({
+      success: true,
+      userKey,
+      deviceCount: Object.keys(devices).length,
+      permissionGranted: !keepsRevocation,
+    });
   } catch (error) {
     console.error("❌ Error in registerSubscription:", error);
     return res.status(500).json({ error: "Internal Server Error", message: "Failed to register subscription" });
@@ -8,35 +8,77 @@ import { initializeFirebase } from './config/firebase';
 import notificationRoutes from './routes/notifications';
 import subscriptionRoutes from './routes/subscriptions';
 import healthRoutes from './routes/health';
+import adminRoutes from './routes/admin';
+import consentRoutes from './routes/consent';
+import webhookRoutes from './routes/webhooks';
 import { errorHandler } from './middleware/errorHandler';
 import { rateLimitMiddleware } from './middleware/rateLimiter';
+import { createIdentityAuthMiddleware, isIdentityAuthConfigured } from './middleware/identityAuth';
+import { getStorageBackend } from './repositories';
+import { AuthenticatedRequest } from './types';
+import { getPushProviderMode } from './push';
+import { startScheduler } from './services/schedulerService';
+import { startQueueWorker } from './services/queueService';
+import { startExpirySweep } from './services/expiryService';
+import { startWebhookWorker } from './services/webhookService';
+import { ensureAckSecret } from './services/notificationLogService';
 
 const app = express();
 const PORT: number = parseInt(process.env.PORT || '3000', 10);
 
-// Initialize Firebase Admin
-initializeFirebase();
+// Initialize Firebase Admin (not needed with local storage and mock push)
+if (getStorageBackend() === 'firestore' || getPushProviderMode() === 'live') {
+  initializeFirebase();
+}
+
+// Fails in production without ACK_TOKEN_SECRET
+ensureAckSecret();
 
 // Middleware
 app.use(helmet()); // Security headers
 app.use(morgan('combined')); // Logging
-app.use(cors()); // CORS support
+// CORS support
 app.use(cors({
   origin: process.env.NODE_ENV === 'production' 
     ? [/\.babbage\.systems$/, /\.metanet\.app$/] 
     : true,
-  methods: ['GET', 'POST', 'DELETE'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'Origin']
+  methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'],
+  allowedHeaders: [
+    'Content-Type',
+    'Authorization',
+    'Origin',
+    'Idempotency-Key',
+    // Signed requests (see requestSigningService)
+    'X-Signature-Key-Id',
+    'X-Signature-Timestamp',
+    'X-Signature-Nonce',
+    'X-Signature-Digest',
+    'X-Signature'
+  ]
+}));
+app.use(express.json({
+  limit: '1mb',
+  // Keep the exact bytes so signed requests can be checked against their digest
+  verify: (req, _res, buf) => {
+    (req as AuthenticatedRequest).rawBody = buf;
+  }
 }));
-app.use(express.json({ limit: '1mb' }));
 app.use(rateLimitMiddleware);
 
+// BRC-103/BRC-104 identity authentication; plain API key requests pass through
+if (isIdentityAuthConfigured()) {
+  app.use(createIdentityAuthMiddleware());
+}
+
 // Health check (no auth required)
 app.use('/health', healthRoutes);
 
 // API routes
 app.use('/api/v1/notifications', notificationRoutes);
 app.use('/api/v1/subscriptions', subscriptionRoutes);
+app.use('/api/v1/admin', adminRoutes);
+app.use('/api/v1/consent', consentRoutes);
+app.use('/api/v1/webhooks', webhookRoutes);
 
 // Root endpoint
 app.get('/', (req: Request, res: Response) => {
@@ -47,8 +89,16 @@ app.get('/', (req: Request, res: Response) => {
     endpoints: {
       health: '/health',
       register: 'POST /api/v1/subscriptions/register',
+      walletRegister: 'POST /api/v1/subscriptions/wallet/register',
       send: 'POST /api/v1/notifications/send',
-      permissions: 'GET /api/v1/subscriptions/permissions/:userKey'
+      batch: 'POST /api/v1/notifications/batch',
+      topic: 'POST /api/v1/notifications/topic',
+      scheduled: 'GET /api/v1/notifications/scheduled',
+      status: 'GET /api/v1/notifications/status/:messageId',
+      ack: 'POST /api/v1/notifications/:messageId/ack',
+      permissions: 'GET /api/v1/subscriptions/permissions/:userKey',
+      consent: 'GET /api/v1/consent',
+      webhooks: 'GET /api/v1/webhooks'
     }
   });
 });
@@ -68,6 +118,22 @@ app.listen(PORT, () => {
   console.log(`🚀 Metanet Notification Backend running on port ${PORT}`);
   console.log(`🌍 Environment: ${process.env.NODE_ENV || 'development'}`);
   console.log(`🔥 Firebase Project: ${process.env.FIREBASE_PROJECT_ID || 'not configured'}`);
+  console.log(`🗄️ Storage Backend: ${getStorageBackend()}`);
+  console.log(`📡 Push Provider: ${getPushProviderMode()}`);
+  console.log(`🪪 Identity Auth: ${isIdentityAuthConfigured() ? 'enabled' : 'disabled'}`);
+
+  if (process.env.SCHEDULER_ENABLED !== 'false') {
+    startScheduler();
+  }
+  if (process.env.QUEUE_WORKER_ENABLED !== 'false') {
+    startQueueWorker();
+  }
+  if (process.env.EXPIRY_SWEEP_ENABLED !== 'false') {
+    startExpirySweep();
+  }
+  if (process.env.WEBHOOK_WORKER_ENABLED !== 'false') {
+    startWebhookWorker();
+  }
 });
 
 export default app;
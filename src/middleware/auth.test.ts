@@ -0,0 +1,286 @@
+import * as crypto from "crypto";
+import express from "express";
+import request from "supertest";
+import { getRepositories, MemoryStore, setStore } from "../repositories";
+import { createApiKey, issueSigningSecret, revokeApiKey } from "../services/apiKeyService";
+import { computeBodyDigest, signRequest } from "../services/requestSigningService";
+import { ApiKeyPermission, AuthenticatedRequest } from "../types";
+import { requirePermission, validateApiKey } from "./auth";
+
+const app = express();
+app.use(
+  express.json({
+    verify: (req, _res, buf) => {
+      (req as AuthenticatedRequest).rawBody = buf;
+    },
+  }),
+);
+app.get(
+  "/api/v1/notifications/status",
+  validateApiKey,
+  requirePermission("notifications:read"),
+  (req, res) => {
+    res.json({ origin: (req as AuthenticatedRequest).origin });
+  },
+);
+app.post(
+  "/api/v1/notifications/send",
+  validateApiKey,
+  requirePermission("notifications:send"),
+  (req, res) => {
+    res.json({ origin: (req as AuthenticatedRequest).origin });
+  },
+);
+
+const DEV_API_KEY = "dev-test-api-key-12345";
+
+function get(apiKey?: string, origin?: string) {
+  const pending = request(app).get("/api/v1/notifications/status");
+  if (apiKey) {
+    pending.set("Authorization", `Bearer ${apiKey}`);
+  }
+  return origin ? pending.set("Origin", origin) : pending;
+}
+
+async function issueKey(
+  permissions: ApiKeyPermission[] = ["notifications:read"],
+  origins?: string[],
+) {
+  const { apiKey, info } = await createApiKey(
+    { origin: "coinflip.com", permissions, ...(origins && { origins }) },
+    "admin",
+  );
+  return { apiKey, keyId: info.keyId };
+}
+
+describe("API key authentication", () => {
+  beforeEach(() => {
+    setStore(new MemoryStore());
+  });
+
+  it("requires a bearer key", async () => {
+    const response = await get();
+    expect(response.status).toBe(401);
+  });
+
+  it("rejects an unknown key", async () => {
+    const response = await get(`mnk_${"x".repeat(43)}`);
+    expect(response.status).toBe(401);
+  });
+
+  it("accepts a key with the route's scope", async () => {
+    const { apiKey } = await issueKey();
+
+    const response = await get(apiKey);
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ origin: "coinflip.com" });
+  });
+
+  it("lets the Origin header pick one of the key's origins", async () => {
+    const { apiKey } = await issueKey(["notifications:read"], ["games.coinflip.com"]);
+
+    expect((await get(apiKey, "https://games.coinflip.com")).body).toEqual({
+      origin: "games.coinflip.com",
+    });
+    expect((await get(apiKey, "https://COINFLIP.com")).body).toEqual({ origin: "coinflip.com" });
+  });
+
+  it("rejects an Origin header the key is not bound to and records it", async () => {
+    const { apiKey, keyId } = await issueKey();
+
+    const response = await get(apiKey, "https://evil.example");
+
+    expect(response.status).toBe(403);
+    const events = await getRepositories().events.find([
+      { field: "type", op: "==", value: "origin_mismatch" },
+    ]);
+    expect(events).toHaveLength(1);
+    expect(events[0]?.data).toMatchObject({ keyId, claimedOrigin: "https://evil.example" });
+    expect(await getRepositories().apiUsage.find([])).toHaveLength(0);
+  });
+
+  it("rejects a key without the route's scope", async () => {
+    const { apiKey } = await issueKey(["notifications:send"]);
+
+    const response = await get(apiKey);
+
+    expect(response.status).toBe(403);
+    expect(response.body).toMatchObject({ missingScopes: ["notifications:read"] });
+  });
+
+  it("rejects a revoked key", async () => {
+    const { apiKey, keyId } = await issueKey();
+    await revokeApiKey(keyId);
+
+    const response = await get(apiKey);
+
+    expect(response.status).toBe(401);
+  });
+
+  it("logs usage by keyId, never the key", async () => {
+    const { apiKey, keyId } = await issueKey();
+
+    await get(apiKey);
+
+    const usage = await getRepositories().apiUsage.find([]);
+    expect(usage).toHaveLength(1);
+    expect(usage[0]?.data.keyId).toBe(keyId);
+    expect(JSON.stringify(usage[0]?.data)).not.toContain(apiKey);
+  });
+
+  describe("development key", () => {
+    function send(origin?: string) {
+      const pending = request(app)
+        .post("/api/v1/notifications/send")
+        .set("Authorization", `Bearer ${DEV_API_KEY}`);
+      return origin ? pending.set("Origin", origin) : pending;
+    }
+
+    it("acts for localhost:3000", async () => {
+      expect((await send()).body).toEqual({ origin: "localhost:3000" });
+      expect((await send("http://localhost:3000")).body).toEqual({ origin: "localhost:3000" });
+    });
+
+    it("is bound to localhost:3000 whatever Origin is claimed", async () => {
+      const response = await send("https://coinflip.com");
+
+      expect(response.status).toBe(403);
+      expect(response.body).toMatchObject({
+        message: "Origin header does not match the origin this API key is bound to",
+      });
+      const events = await getRepositories().events.find([
+        { field: "type", op: "==", value: "origin_mismatch" },
+      ]);
+      expect(events).toHaveLength(1);
+      expect(events[0]?.data).toMatchObject({
+        keyId: "dev",
+        origin: "localhost:3000",
+        claimedOrigin: "https://coinflip.com",
+      });
+    });
+
+    it("never carries read, batch or admin scopes", async () => {
+      const response = await get(DEV_API_KEY);
+
+      expect(response.status).toBe(403);
+      expect(response.body).toMatchObject({ missingScopes: ["notifications:read"] });
+    });
+
+    it("is refused when NODE_ENV is unset", async () => {
+      const nodeEnv = process.env.NODE_ENV;
+      delete process.env.NODE_ENV;
+      try {
+        expect((await send()).status).toBe(401);
+      } finally {
+        process.env.NODE_ENV = nodeEnv;
+      }
+    });
+  });
+
+  describe("signed requests", () => {
+    const PATH = "/api/v1/notifications/send";
+    const BODY = JSON.stringify({ userKey: "user-1" });
+
+    let apiKey: string;
+    let keyId: string;
+    let signingSecret: string;
+
+    beforeAll(() => {
+      process.env.REQUEST_SIGNING_SECRET = "test-request-signing-secret";
+    });
+
+    afterAll(() => {
+      delete process.env.REQUEST_SIGNING_SECRET;
+    });
+
+    beforeEach(async () => {
+      ({ apiKey, keyId } = await issueKey(["notifications:send"]));
+      const issued = await issueSigningSecret(keyId, true);
+      signingSecret = issued?.signingSecret || "";
+    });
+
+    function signedHeaders(
+      overrides: { nonce?: string; timestamp?: number; secret?: string; body?: string } = {},
+    ) {
+      const parts = {
+        method: "POST",
+        path: PATH,
+        timestamp: String(overrides.timestamp ?? Date.now()),
+        nonce: overrides.nonce ?? crypto.randomBytes(16).toString("hex"),
+        digest: computeBodyDigest(Buffer.from(overrides.body ?? BODY)),
+      };
+      return {
+        "Content-Type": "application/json",
+        "X-Signature-Key-Id": keyId,
+        "X-Signature-Timestamp": parts.timestamp,
+        "X-Signature-Nonce": parts.nonce,
+        "X-Signature-Digest": parts.digest,
+        "X-Signature": signRequest(overrides.secret ?? signingSecret, parts),
+      };
+    }
+
+    function post(headers: Record<string, string>, body = BODY) {
+      return request(app).post(PATH).set(headers).send(body);
+    }
+
+    it("accepts a correctly signed request", async () => {
+      const response = await post(signedHeaders());
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ origin: "coinflip.com" });
+      const [usage] = await getRepositories().apiUsage.find([]);
+      expect(usage?.data).toMatchObject({ keyId, authMethod: "signature" });
+    });
+
+    it("rejects a replayed nonce", async () => {
+      const headers = signedHeaders();
+
+      expect((await post(headers)).status).toBe(200);
+      const replay = await post(headers);
+
+      expect(replay.status).toBe(401);
+      expect(replay.body.message).toBe("Signature nonce has already been used");
+    });
+
+    it("rejects a body that does not match the signed digest", async () => {
+      const response = await post(signedHeaders(), JSON.stringify({ userKey: "user-2" }));
+
+      expect(response.status).toBe(401);
+      expect(response.body.message).toBe("Body digest does not match the request body");
+    });
+
+    it("rejects a signature made with another secret", async () => {
+      const response = await post(signedHeaders({ secret: "not-the-signing-secret" }));
+
+      expect(response.status).toBe(401);
+      expect(response.body.message).toBe("Invalid request signature");
+    });
+
+    it("rejects a timestamp outside the allowed clock skew", async () => {
+      const response = await post(signedHeaders({ timestamp: Date.now() - 10 * 60 * 1000 }));
+
+      expect(response.status).toBe(401);
+      expect(response.body.message).toBe(
+        "Signature timestamp is outside the allowed clock skew",
+      );
+    });
+
+    it("refuses bearer use of a key that requires signing", async () => {
+      const response = await post({
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${apiKey}`,
+      });
+
+      expect(response.status).toBe(401);
+      expect(response.body.message).toBe("This API key only accepts signed requests");
+    });
+
+    it("does not burn the nonce of a rejected request", async () => {
+      const nonce = crypto.randomBytes(16).toString("hex");
+
+      expect((await post(signedHeaders({ nonce, secret: "forged" }))).status).toBe(401);
+      expect((await post(signedHeaders({ nonce }))).status).toBe(200);
+    });
+  });
+});
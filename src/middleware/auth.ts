@@ -1,18 +1,107 @@
 import { NextFunction, Request, Response } from "express";
-import { getFirestore } from "../config/firebase";
-import { AuthenticatedRequest } from "../types";
+import { getRepositories } from "../repositories";
+import {
+  findApiKey,
+  findApiKeyByIdentity,
+  getApiKey,
+} from "../services/apiKeyService";
+import {
+  SIGNATURE_HEADERS,
+  SignatureError,
+  verifySignedRequest,
+} from "../services/requestSigningService";
+import {
+  ApiKeyAuthMethod,
+  ApiKeyInfo,
+  ApiKeyPermission,
+  AuthenticatedRequest,
+} from "../types";
+import { getIdentityKey } from "./identityAuth";
+import { apiKeyRateLimitMiddleware } from "./rateLimiter";
+
+/**
+ * Host part of an origin, or null if it cannot be parsed as one
+ */
+function parseOrigin(origin: string): string | null {
+  try {
+    return new URL(origin.includes("://") ? origin : `https://${origin}`).host.toLowerCase() || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Host part of an origin, so "https://coinflip.com" and "coinflip.com" compare equal
+ */
+function normalizeOrigin(origin: string): string {
+  return parseOrigin(origin) ?? origin.toLowerCase();
+}
+
+/**
+ * The origin a request acts for: the key's own origin, or one of its extra
+ * origins picked by the Origin header. Null if the header names an origin
+ * the key is not bound to.
+ */
+function resolveOrigin(
+  req: Request,
+  origin: string,
+  extraOrigins: string[] = [],
+): string | null {
+  const claimedOrigin = req.get("Origin");
+  if (!claimedOrigin) {
+    return origin;
+  }
+  const claimed = normalizeOrigin(claimedOrigin);
+  return (
+    [origin, ...extraOrigins].find(
+      (allowed) => normalizeOrigin(allowed) === claimed,
+    ) || null
+  );
+}
+
+/**
+ * Log and record a request whose Origin header names an origin the key is
+ * not bound to
+ */
+async function recordOriginMismatch(
+  req: Request,
+  keyId: string,
+  origin: string,
+): Promise<void> {
+  console.warn(
+    `🚨 Origin mismatch for API key ${keyId}: bound to ${origin}, request claimed ${req.get("Origin")}`,
+  );
+  await getRepositories().events.add({
+    type: "origin_mismatch",
+    origin: origin,
+    claimedOrigin: req.get("Origin"),
+    keyId: keyId,
+    method: req.method,
+    endpoint: req.originalUrl,
+    ip: req.ip,
+    timestamp: Date.now(),
+  });
+}
 
 /**
  * API key validation middleware
  * Validates API keys and sets origin information
  */
 async function validateApiKey(req: Request, res: Response, next: NextFunction) {
+  // Signed requests carry a key ID and signature instead of a bearer key
+  if (req.get(SIGNATURE_HEADERS.signature)) {
+    return validateSignedRequest(req, res, next);
+  }
+
+  // Sites on a BRC-103 session prove their identity key instead of sending one
+  const identityKey = getIdentityKey(req);
+  if (identityKey && !req.headers.authorization) {
+    return validateIdentityRequest(req, res, next, identityKey);
+  }
+
   try {
     const authHeader = req.headers.authorization;
 
-    console.log('Authorization header:', authHeader);
-    console.log('API Key:', authHeader?.substring(7));
-
     if (!authHeader || !authHeader.startsWith("Bearer ")) {
       console.log('Missing or malformed Authorization header');
       return res.status(401).json({
@@ -23,20 +112,33 @@ async function validateApiKey(req: Request, res: Response, next: NextFunction) {
 
     const apiKey = authHeader.substring(7);
 
-    // In development, allow test API key (check BEFORE length validation)
+    // In development, allow test API key (check BEFORE length validation).
+    // An unset NODE_ENV does not count, so a misconfigured deployment stays closed.
     if (
-      process.env.NODE_ENV !== "production" &&
+      (process.env.NODE_ENV === "development" || process.env.NODE_ENV === "test") &&
       apiKey === "dev-test-api-key-12345"
     ) {
+      // Bound to one origin like any other key, never the one the caller names
+      const boundOrigin = process.env.DEV_API_KEY_ORIGIN || "localhost:3000";
+      const origin = resolveOrigin(req, boundOrigin);
+      if (!origin) {
+        await recordOriginMismatch(req, "dev", boundOrigin);
+        return res.status(403).json({
+          error: "Forbidden",
+          message: "Origin header does not match the origin this API key is bound to",
+        });
+      }
       console.log('Development mode: Test API key accepted');
-      (req as AuthenticatedRequest).origin = "localhost:3000";
+      (req as AuthenticatedRequest).origin = origin;
       (req as AuthenticatedRequest).apiKeyInfo = {
-        origin: "localhost:3000",
+        keyId: "dev",
+        origin: origin,
+        // The key is published, so it never gets admin or webhook scopes
         permissions: ["notifications:send", "subscriptions:manage"],
         createdBy: "dev-test-api-key-12345",
         environment: "development",
       };
-      return next();
+      return apiKeyRateLimitMiddleware(req, res, next);
     }
 
     if (!apiKey || apiKey.length < 32) {
@@ -47,125 +149,239 @@ async function validateApiKey(req: Request, res: Response, next: NextFunction) {
       });
     }
 
-    // Validate API key against database
-    const db = getFirestore();
-    console.log(`Querying Firestore for API key: ${apiKey}`);
-    console.log(`Collection: apiKeys, Document ID: ${apiKey}`);
+    // Validate API key against the stored hashes
+    const apiKeyDoc = await findApiKey(apiKey);
 
-    // Debug: Try to list collections to see what's accessible
-    try {
-      console.log("Testing Firestore access - listing collections...");
-      const collections = await db.listCollections();
-      console.log(
-        `Found ${collections.length} collections:`,
-        collections.map((c) => c.id),
-      );
-    } catch (listError) {
-      console.log("Error listing collections:", (listError as Error).message);
+    if (!apiKeyDoc) {
+      return res.status(401).json({
+        error: "Unauthorized",
+        message: "Invalid API key",
+      });
     }
 
-    // Debug: Try to get the apiKeys collection reference
-    try {
-      console.log("Getting apiKeys collection reference...");
-      const apiKeysCollection = db.collection("apiKeys");
-      console.log("apiKeys collection reference created successfully");
-
-      // Try to list documents in the collection
-      const snapshot = await apiKeysCollection.limit(5).get();
-      console.log(`Found ${snapshot.size} documents in apiKeys collection`);
-      snapshot.docs.forEach((doc) => {
-        console.log(`Document ID: ${doc.id}`);
+    if (apiKeyDoc.data.requireSignedRequests) {
+      return res.status(401).json({
+        error: "Unauthorized",
+        message: "This API key only accepts signed requests",
       });
-    } catch (collectionError) {
-      console.log(
-        "Error accessing apiKeys collection:",
-        (collectionError as Error).message,
-      );
     }
 
-    const apiKeyDoc = await db.collection("apiKeys").doc(apiKey).get();
+    await authorizeApiKey(req, res, next, apiKeyDoc.data, "bearer");
+  } catch (error) {
+    console.error("❌ API key validation error:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to validate API key",
+    });
+  }
+}
+
+const SIGNATURE_ERROR_MESSAGES: Record<SignatureError, string> = {
+  not_configured: "Request signing is not configured on this server",
+  malformed: "Signature timestamp or nonce is malformed",
+  stale_timestamp: "Signature timestamp is outside the allowed clock skew",
+  digest_mismatch: "Body digest does not match the request body",
+  bad_signature: "Invalid request signature",
+  replayed_nonce: "Signature nonce has already been used",
+};
 
-    if (!apiKeyDoc.exists) {
+/**
+ * Signed request middleware
+ * Authenticates an HMAC-signed request by key ID instead of a bearer key
+ */
+async function validateSignedRequest(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const keyId = req.get(SIGNATURE_HEADERS.keyId);
+    const timestamp = req.get(SIGNATURE_HEADERS.timestamp);
+    const nonce = req.get(SIGNATURE_HEADERS.nonce);
+    const digest = req.get(SIGNATURE_HEADERS.digest);
+    const signature = req.get(SIGNATURE_HEADERS.signature);
+
+    if (!keyId || !timestamp || !nonce || !digest || !signature) {
       return res.status(401).json({
         error: "Unauthorized",
-        message: "Invalid API key",
+        message:
+          "Signed requests need X-Signature-Key-Id, X-Signature-Timestamp, X-Signature-Nonce, X-Signature-Digest and X-Signature headers",
       });
     }
 
-    const apiKeyData = apiKeyDoc.data();
+    const apiKeyDoc = await getApiKey(keyId);
 
-    // Check if API key is active
-    if (!apiKeyData?.active) {
+    if (!apiKeyDoc || apiKeyDoc.data.signingSecretVersion === undefined) {
       return res.status(401).json({
         error: "Unauthorized",
-        message: "API key has been deactivated",
+        message: "Request signing is not enabled for this API key",
       });
     }
 
-    // Check if API key has expired
-    if (apiKeyData.expiresAt && Date.now() > apiKeyData.expiresAt) {
+    const signatureError = await verifySignedRequest(
+      { method: req.method, path: req.originalUrl, timestamp, nonce, digest },
+      signature,
+      (req as AuthenticatedRequest).rawBody,
+      keyId,
+      apiKeyDoc.data.signingSecretVersion,
+    );
+
+    if (signatureError) {
+      console.warn(`🚨 Rejected signed request for key ${keyId}: ${signatureError}`);
       return res.status(401).json({
         error: "Unauthorized",
-        message: "API key has expired",
+        message: SIGNATURE_ERROR_MESSAGES[signatureError],
       });
     }
 
-    // Set request context
-    (req as AuthenticatedRequest).origin = apiKeyData.origin;
-    (req as AuthenticatedRequest).apiKeyInfo = {
-      origin: apiKeyData.origin,
-      permissions: apiKeyData.permissions || [],
-      createdBy: apiKeyData.createdBy,
-      environment: apiKeyData.environment || "production",
-    };
-
-    // Log API usage
-    await db.collection("apiUsage").add({
-      apiKey: apiKey,
-      origin: apiKeyData.origin,
-      endpoint: req.path,
-      method: req.method,
-      timestamp: Date.now(),
-      userAgent: req.get("User-Agent"),
-      ip: req.ip,
+    return authorizeApiKey(req, res, next, apiKeyDoc.data, "signature");
+  } catch (error) {
+    console.error("❌ Signed request validation error:", error);
+    return res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to validate request signature",
     });
+  }
+}
 
-    console.log(
-      `🔑 API key validated for origin: ${apiKeyData.origin} - ${req.method} ${req.path}`,
-    );
+/**
+ * Identity request middleware
+ * Authenticates a BRC-103 request by the API key bound to its identity key
+ */
+async function validateIdentityRequest(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+  identityKey: string,
+) {
+  try {
+    const apiKeyDoc = await findApiKeyByIdentity(identityKey);
 
-    next();
+    if (!apiKeyDoc) {
+      console.warn(`🚨 No API key bound to identity ${identityKey.substring(0, 8)}...`);
+      return res.status(401).json({
+        error: "Unauthorized",
+        message: "No API key is bound to this identity key",
+      });
+    }
+
+    return authorizeApiKey(req, res, next, apiKeyDoc.data, "identity");
   } catch (error) {
-    console.error("❌ API key validation error:", error);
-    res.status(500).json({
+    console.error("❌ Identity validation error:", error);
+    return res.status(500).json({
       error: "Internal Server Error",
-      message: "Failed to validate API key",
+      message: "Failed to validate identity",
+    });
+  }
+}
+
+/**
+ * Checks shared by every way of authenticating: the key must be active and
+ * unexpired and the request must act for one of its origins. Sets the
+ * request context, logs usage and passes control on.
+ */
+async function authorizeApiKey(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+  apiKeyData: ApiKeyInfo & { keyId: string },
+  authMethod: ApiKeyAuthMethod,
+) {
+  // Check if API key is active
+  if (!apiKeyData.active) {
+    return res.status(401).json({
+      error: "Unauthorized",
+      message: "API key has been deactivated",
+    });
+  }
+
+  // Check if API key has expired
+  if (apiKeyData.expiresAt && Date.now() > apiKeyData.expiresAt) {
+    return res.status(401).json({
+      error: "Unauthorized",
+      message: "API key has expired",
     });
   }
+
+  // The acting origin comes from the key; an Origin header may only pick
+  // among the origins the key is bound to
+  const origin = resolveOrigin(req, apiKeyData.origin, apiKeyData.origins);
+  if (!origin) {
+    await recordOriginMismatch(req, apiKeyData.keyId, apiKeyData.origin);
+    return res.status(403).json({
+      error: "Forbidden",
+      message: "Origin header does not match the origin this API key is bound to",
+    });
+  }
+
+  // Set request context
+  (req as AuthenticatedRequest).origin = origin;
+  (req as AuthenticatedRequest).apiKeyInfo = {
+    keyId: apiKeyData.keyId,
+    origin: origin,
+    permissions: apiKeyData.permissions || [],
+    createdBy: apiKeyData.createdBy,
+    environment: apiKeyData.environment || "production",
+    ...(authMethod === "identity" &&
+      apiKeyData.identityKey && { identityKey: apiKeyData.identityKey }),
+    ...(apiKeyData.quotas && { quotas: apiKeyData.quotas }),
+    ...(apiKeyData.rateLimits && { rateLimits: apiKeyData.rateLimits }),
+  };
+
+  // Log API usage (by keyId, never the key itself)
+  await getRepositories().apiUsage.add({
+    keyId: apiKeyData.keyId,
+    ...(apiKeyData.keyPrefix && { keyPrefix: apiKeyData.keyPrefix }),
+    authMethod: authMethod,
+    ...(authMethod === "identity" &&
+      apiKeyData.identityKey && { identityKey: apiKeyData.identityKey }),
+    origin: origin,
+    endpoint: req.path,
+    method: req.method,
+    timestamp: Date.now(),
+    userAgent: req.get("User-Agent"),
+    ip: req.ip,
+  });
+
+  console.log(
+    `🔑 API key validated for origin: ${origin} - ${req.method} ${req.path}`,
+  );
+
+  // Per-key limits need the key's record, so they are checked here
+  return apiKeyRateLimitMiddleware(req, res, next);
 }
 
 /**
  * Permission check middleware
- * Checks if the API key has specific permissions
+ * Checks that the API key has every one of the given permission scopes
  */
-function requirePermission(permission: string) {
+function requirePermission(...permissions: ApiKeyPermission[]) {
   return (
-    req: AuthenticatedRequest,
+    req: Request,
     res: Response,
     next: NextFunction,
   ): void => {
-    if (!req.apiKeyInfo || !req.apiKeyInfo.permissions) {
+    const apiKeyInfo = (req as AuthenticatedRequest).apiKeyInfo;
+    if (!apiKeyInfo || !apiKeyInfo.permissions) {
       res.status(403).json({
         error: "Forbidden",
         message: "No permissions information available",
+        missingScopes: permissions,
       });
       return;
     }
 
-    if (!req.apiKeyInfo.permissions.includes(permission)) {
+    const missingScopes = permissions.filter(
+      (permission) => !apiKeyInfo.permissions.includes(permission),
+    );
+    if (missingScopes.length > 0) {
+      console.log(
+        `🚫 ${apiKeyInfo.origin} missing scope ${missingScopes.join(", ")} for ${req.method} ${req.originalUrl}`,
+      );
       res.status(403).json({
         error: "Forbidden",
-        message: `Permission '${permission}' required for this operation`,
+        message: `Permission '${missingScopes.join("', '")}' required for this operation`,
+        missingScopes: missingScopes,
       });
       return;
     }
@@ -174,4 +390,4 @@ function requirePermission(permission: string) {
   };
 }
 
-export { validateApiKey, requirePermission };
+export { parseOrigin, validateApiKey, validateSignedRequest, requirePermission };
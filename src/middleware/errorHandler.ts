@@ -91,6 +91,8 @@ function notFoundHandler(req: Request, res: Response): void {
       health: "GET /health",
       register: "POST /api/v1/subscriptions/register",
       send: "POST /api/v1/notifications/send",
+      batch: "POST /api/v1/notifications/batch",
+      topic: "POST /api/v1/notifications/topic",
       permissions: "GET /api/v1/subscriptions/permissions/:userKey",
       unsubscribe: "DELETE /api/v1/subscriptions/:userKey",
     },
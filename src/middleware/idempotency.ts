@@ -0,0 +1,84 @@
+import * as crypto from "crypto";
+import { NextFunction, Request, Response } from "express";
+import {
+  IDEMPOTENCY_KEY_PATTERN,
+  claimIdempotencyKey,
+  completeIdempotencyKey,
+  releaseIdempotencyKey,
+} from "../services/idempotencyService";
+import { AuthenticatedRequest } from "../types";
+
+/**
+ * Idempotency middleware
+ * Requests with an Idempotency-Key header are processed once per origin and
+ * key; repeats within the window get the original response, so a retried
+ * send returns the first messageId instead of pushing again. Only successful
+ * responses are kept, so failed requests can be retried with the same key.
+ */
+async function idempotencyMiddleware(req: Request, res: Response, next: NextFunction) {
+  const key = req.get("Idempotency-Key");
+  if (key === undefined) {
+    return next();
+  }
+
+  if (!IDEMPOTENCY_KEY_PATTERN.test(key)) {
+    return res.status(400).json({
+      error: "Invalid Request",
+      message: "Idempotency-Key must be 1-255 visible ASCII characters",
+    });
+  }
+
+  try {
+    const origin = (req as AuthenticatedRequest).origin || "";
+    const body = (req as AuthenticatedRequest).rawBody || JSON.stringify(req.body ?? {});
+    const requestHash = crypto.createHash("sha256").update(body).digest("hex");
+
+    const claim = await claimIdempotencyKey(origin, key, requestHash);
+
+    if (claim.outcome === "replay") {
+      console.log(`🔁 Replaying response for Idempotency-Key from ${origin}`);
+      res.set("Idempotent-Replayed", "true");
+      return res
+        .status(claim.record.statusCode || 200)
+        .json(JSON.parse(claim.record.responseBody || "{}"));
+    }
+
+    if (claim.outcome === "in_progress") {
+      return res.status(409).json({
+        error: "Conflict",
+        message: "A request with this Idempotency-Key is still being processed",
+      });
+    }
+
+    if (claim.outcome === "mismatch") {
+      return res.status(422).json({
+        error: "Unprocessable Entity",
+        message: "Idempotency-Key has already been used for a different request",
+      });
+    }
+
+    // Store the result before answering, so an immediate retry sees it
+    const json = res.json.bind(res);
+    res.json = (responseBody: unknown) => {
+      const statusCode = res.statusCode;
+      const settled =
+        statusCode < 300
+          ? completeIdempotencyKey(claim.id, statusCode, JSON.stringify(responseBody))
+          : releaseIdempotencyKey(claim.id);
+      settled
+        .catch((error) => console.error("❌ Error saving idempotent response:", error))
+        .finally(() => json(responseBody));
+      return res;
+    };
+
+    return next();
+  } catch (error) {
+    console.error("❌ Error checking Idempotency-Key:", error);
+    return res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to check Idempotency-Key",
+    });
+  }
+}
+
+export { idempotencyMiddleware };
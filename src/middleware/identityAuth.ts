@@ -0,0 +1,72 @@
+import { NextFunction, Request, RequestHandler, Response } from "express";
+import {
+  AuthRequest,
+  createAuthMiddleware,
+} from "@bsv/auth-express-middleware";
+import { PrivateKey, ProtoWallet, WalletInterface } from "@bsv/sdk";
+import { AuthenticatedRequest } from "../types";
+
+// Compressed secp256k1 public key in hex, the form identity keys take
+export const IDENTITY_KEY_PATTERN = /^0[23][0-9a-fA-F]{64}$/;
+
+/**
+ * Whether BRC-103 identity authentication is available (SERVER_PRIVATE_KEY is set)
+ */
+export function isIdentityAuthConfigured(): boolean {
+  return Boolean(process.env.SERVER_PRIVATE_KEY);
+}
+
+/**
+ * BRC-103/BRC-104 mutual authentication middleware
+ * Answers the /.well-known/auth handshake with the server's identity key and
+ * verifies requests signed by an established session. Requests without auth
+ * headers pass through so API key authentication keeps working.
+ */
+export function createIdentityAuthMiddleware(): RequestHandler {
+  const privateKey = process.env.SERVER_PRIVATE_KEY;
+  if (!privateKey) {
+    throw new Error("SERVER_PRIVATE_KEY is not configured");
+  }
+
+  // The handshake only needs key derivation, signatures and HMACs, which a
+  // ProtoWallet provides without a full wallet behind it
+  const wallet = new ProtoWallet(PrivateKey.fromHex(privateKey)) as WalletInterface;
+
+  return createAuthMiddleware({
+    wallet: wallet,
+    allowUnauthenticated: true,
+  });
+}
+
+/**
+ * Identity key the request was authenticated with, or null if it did not
+ * come over an authenticated session
+ */
+export function getIdentityKey(req: Request): string | null {
+  const identityKey = (req as AuthRequest).auth?.identityKey;
+  return identityKey && identityKey !== "unknown" ? identityKey : null;
+}
+
+/**
+ * Wallet identity middleware
+ * Requires the request to be authenticated with a wallet identity key
+ */
+export function validateWalletIdentity(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void {
+  const identityKey = getIdentityKey(req);
+  if (!identityKey) {
+    res.status(401).json({
+      error: "Unauthorized",
+      message: isIdentityAuthConfigured()
+        ? "Requests must be authenticated with a wallet identity key (BRC-103)"
+        : "Identity authentication is not configured on this server",
+    });
+    return;
+  }
+
+  (req as AuthenticatedRequest).identityKey = identityKey;
+  next();
+}
@@ -0,0 +1,105 @@
+import * as crypto from "crypto";
+import {
+  ClientRateLimitInfo,
+  IncrementResponse,
+  MemoryStore,
+  Options,
+  Store,
+} from "express-rate-limit";
+import { getRepositories } from "../repositories";
+import { RateLimitCounter } from "../types";
+
+// Retries when another instance changed a counter between our read and write
+const MAX_WRITE_ATTEMPTS = 10;
+
+function toClientInfo(counter: RateLimitCounter): ClientRateLimitInfo {
+  return { totalHits: counter.hits, resetTime: new Date(counter.resetAt) };
+}
+
+/**
+ * Rate limit store on the document store, so every instance shares the same
+ * counters and they survive restarts. With STORAGE_BACKEND=memory it is the
+ * in-process stand-in used for offline development and tests.
+ */
+export class DocumentRateLimitStore implements Store {
+  readonly localKeys = false;
+  private windowMs = 60 * 1000;
+
+  constructor(readonly prefix: string) {}
+
+  init(options: Options): void {
+    this.windowMs = options.windowMs;
+  }
+
+  private counterId(key: string): string {
+    // Hashed because client keys (e.g. IPv6 addresses) are not valid document IDs
+    const hash = crypto.createHash("sha256").update(key).digest("hex");
+    return `${this.prefix}${hash.substring(0, 32)}`;
+  }
+
+  async get(key: string): Promise<ClientRateLimitInfo | undefined> {
+    const counter = await getRepositories().rateLimits.get(this.counterId(key));
+    return counter && counter.resetAt > Date.now() ? toClientInfo(counter) : undefined;
+  }
+
+  async increment(key: string): Promise<IncrementResponse> {
+    const { rateLimits } = getRepositories();
+    const id = this.counterId(key);
+
+    for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+      const now = Date.now();
+      const existing = await rateLimits.get(id);
+      if (!existing) {
+        const counter = { hits: 1, resetAt: now + this.windowMs };
+        if (await rateLimits.create(id, counter)) {
+          return toClientInfo(counter);
+        }
+        continue;
+      }
+
+      // A new window starts with the first hit after the last one ended
+      const counter =
+        existing.resetAt <= now
+          ? { hits: 1, resetAt: now + this.windowMs }
+          : { hits: existing.hits + 1, resetAt: existing.resetAt };
+      if (await rateLimits.updateIf(id, existing, counter)) {
+        return toClientInfo(counter);
+      }
+    }
+
+    throw new Error(`Could not update rate limit counter ${id}: too many concurrent updates`);
+  }
+
+  async decrement(key: string): Promise<void> {
+    const { rateLimits } = getRepositories();
+    const id = this.counterId(key);
+
+    for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+      const existing = await rateLimits.get(id);
+      if (!existing || existing.hits === 0) {
+        return;
+      }
+      if (await rateLimits.updateIf(id, existing, { hits: existing.hits - 1 })) {
+        return;
+      }
+    }
+  }
+
+  async resetKey(key: string): Promise<void> {
+    await getRepositories().rateLimits.delete(this.counterId(key));
+  }
+}
+
+/**
+ * Store selected by RATE_LIMIT_STORE: "shared" (default) keeps counters in the
+ * document store, "local" in process memory for a single instance
+ */
+export function createRateLimitStore(prefix: string): Store {
+  const mode = (process.env.RATE_LIMIT_STORE || "shared").toLowerCase();
+  if (mode !== "shared" && mode !== "local") {
+    throw new Error(
+      `Unsupported RATE_LIMIT_STORE "${mode}" - expected "shared" or "local"`,
+    );
+  }
+  return mode === "local" ? new MemoryStore() : new DocumentRateLimitStore(prefix);
+}
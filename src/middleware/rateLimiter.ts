@@ -1,53 +1,126 @@
 import rateLimit from "express-rate-limit";
 import { Request } from "express";
+import {
+  ApiKeyRateLimits,
+  AuthenticatedRequest,
+  RateLimitCategory,
+} from "../types";
+import { createRateLimitStore } from "./rateLimitStore";
+
+// Window every per-key limit is counted over
+const RATE_LIMIT_WINDOW_MS = 15 * 60 * 1000;
+
+// Requests per API key per window, unless the key's record sets its own
+export const DEFAULT_RATE_LIMITS: Required<ApiKeyRateLimits> = {
+  send: 100, // notifications and data-only pushes per 15 minutes
+  batch: 20, // batch or topic sends per 15 minutes
+  subscriptions: 50, // subscription operations per 15 minutes
+  general: 200, // general API calls
+};
+
+/**
+ * Which per-key limit a request counts against
+ */
+export function getRateLimitCategory(path: string): RateLimitCategory {
+  if (
+    path.includes("/notifications/batch") ||
+    path.includes("/notifications/topic")
+  ) {
+    return "batch";
+  }
+  if (path.includes("/notifications/send") || path.includes("/notifications/data")) {
+    return "send";
+  }
+  if (path.includes("/subscriptions")) {
+    return "subscriptions";
+  }
+  return "general";
+}
+
+function getKeyRateLimit(req: Request): number {
+  const limits = {
+    ...DEFAULT_RATE_LIMITS,
+    ...(req as AuthenticatedRequest).apiKeyInfo?.rateLimits,
+  };
+  return limits[getRateLimitCategory(`${req.baseUrl}${req.path}`)];
+}
+
+// Seconds until the client's window resets
+function getRetryAfter(req: Request): number | undefined {
+  const resetTime = (req as Request & { rateLimit?: { resetTime?: Date } }).rateLimit
+    ?.resetTime;
+  return resetTime
+    ? Math.max(Math.ceil((resetTime.getTime() - Date.now()) / 1000), 1)
+    : undefined;
+}
 
 /**
  * Rate limiting middleware
- * Prevents abuse by limiting requests per IP/API key
+ * Limits requests per client IP before authentication, so no route can be
+ * flooded; per-key limits are applied once the key is known
  */
 const rateLimitMiddleware = rateLimit({
-  windowMs: 15 * 60 * 1000, // 15 minutes
-  max: (req: Request) => {
-    // Different limits for different endpoints
-    if (req.path.includes("/notifications/send")) {
-      return 100; // 100 notifications per 15 minutes
-    }
-    if (req.path.includes("/subscriptions")) {
-      return 50; // 50 subscription operations per 15 minutes
-    }
-    return 200; // General API calls
-  },
+  windowMs: RATE_LIMIT_WINDOW_MS,
+  limit: parseInt(process.env.RATE_LIMIT_IP_MAX || "1000", 10),
+  store: createRateLimitStore("ip:"),
   message: (req: Request) => ({
     error: "Too Many Requests",
     message: "Rate limit exceeded. Please try again later.",
-    retryAfter: Math.ceil((req as any).rateLimit.resetTime / 1000),
+    retryAfter: getRetryAfter(req),
   }),
   standardHeaders: true,
   legacyHeaders: false,
-  keyGenerator: (req: Request) => {
-    const authHeader = req.headers.authorization;
-    if (authHeader && authHeader.startsWith("Bearer ")) {
-      const apiKey = authHeader.substring(7);
-      return `api:${apiKey}`;
-    }
-    return req.ip || "unknown";
-  },
+  // A shared store outage should not take the API down with it
+  passOnStoreError: true,
   skip: (req: Request) =>
     req.path === "/health" || req.path === "/health/ready",
 });
 
+/**
+ * API key rate limiting middleware
+ * Limits requests per API key and kind of endpoint, reading the limits from
+ * the key's record; runs as the last step of API key authentication
+ */
+const apiKeyRateLimitMiddleware = rateLimit({
+  windowMs: RATE_LIMIT_WINDOW_MS,
+  limit: getKeyRateLimit,
+  store: createRateLimitStore("key:"),
+  message: (req: Request) => ({
+    error: "Too Many Requests",
+    message: "Rate limit exceeded. Please try again later.",
+    limit: getKeyRateLimit(req),
+    retryAfter: getRetryAfter(req),
+  }),
+  standardHeaders: true,
+  legacyHeaders: false,
+  passOnStoreError: true,
+  keyGenerator: (req: Request) => {
+    const apiKeyInfo = (req as AuthenticatedRequest).apiKeyInfo;
+    const category = getRateLimitCategory(`${req.baseUrl}${req.path}`);
+    return `${apiKeyInfo?.keyId || apiKeyInfo?.origin || req.ip}:${category}`;
+  },
+});
+
 /**
  * Strict rate limiter for sensitive endpoints
  */
 const strictRateLimitMiddleware = rateLimit({
   windowMs: 5 * 60 * 1000, // 5 minutes
   max: 10, // Very limited for sensitive operations
+  store: createRateLimitStore("strict:"),
   message: {
     error: "Too Many Requests",
     message: "Strict rate limit exceeded for sensitive operation.",
   },
   standardHeaders: true,
   legacyHeaders: false,
+  passOnStoreError: true,
+  keyGenerator: (req: Request) =>
+    (req as AuthenticatedRequest).apiKeyInfo?.keyId || req.ip || "unknown",
 });
 
-export { rateLimitMiddleware, strictRateLimitMiddleware };
+export {
+  rateLimitMiddleware,
+  apiKeyRateLimitMiddleware,
+  strictRateLimitMiddleware,
+};
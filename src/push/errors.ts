@@ -0,0 +1,59 @@
+import { WebPushError } from "web-push";
+
+const INVALID_TOKEN_CODES = new Set([
+  "messaging/invalid-registration-token",
+  "messaging/registration-token-not-registered",
+  "webpush/404",
+  "webpush/410",
+]);
+
+// Transient failures worth retrying: service outages, quotas and network errors
+const RETRYABLE_CODES = new Set([
+  "messaging/server-unavailable",
+  "messaging/internal-error",
+  "messaging/unknown-error",
+  "messaging/quota-exceeded",
+  "messaging/message-rate-exceeded",
+  "messaging/device-message-rate-exceeded",
+  "messaging/topics-message-rate-exceeded",
+  "app/network-error",
+  "app/network-timeout",
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EAI_AGAIN",
+  "webpush/429",
+]);
+
+/**
+ * Normalize a provider error to a code such as
+ * "messaging/registration-token-not-registered" or "webpush/410"
+ */
+export function getPushErrorCode(error: unknown): string {
+  if (error instanceof WebPushError) {
+    return `webpush/${error.statusCode}`;
+  }
+  const code = (error as { code?: unknown } | null)?.code;
+  return typeof code === "string" ? code : "unknown";
+}
+
+/**
+ * Whether a normalized error code means the token or endpoint will never work again
+ */
+export function isInvalidTokenCode(code: string): boolean {
+  return INVALID_TOKEN_CODES.has(code);
+}
+
+/**
+ * Whether the error means the token or endpoint will never work again
+ */
+export function isInvalidTokenError(error: unknown): boolean {
+  return isInvalidTokenCode(getPushErrorCode(error));
+}
+
+/**
+ * Whether a normalized error code is transient and the send should be retried
+ */
+export function isRetryableCode(code: string): boolean {
+  return RETRYABLE_CODES.has(code) || /^webpush\/5\d\d$/.test(code);
+}
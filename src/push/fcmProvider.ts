@@ -0,0 +1,195 @@
+import * as admin from "firebase-admin";
+import { getMessaging } from "../config/firebase";
+import {
+  PushMessage,
+  PushPayload,
+  PushProvider,
+  PushTarget,
+  SendNotificationResult,
+} from "./types";
+
+// FCM accepts at most 500 messages per sendEach() call
+const FCM_BATCH_LIMIT = 500;
+
+// Shown by iOS in place of an encrypted notification the app could not decrypt
+const ENCRYPTED_PLACEHOLDER_TITLE = "New notification";
+
+/**
+ * Delivers notifications through Firebase Cloud Messaging
+ */
+export class FcmProvider implements PushProvider {
+  readonly name = "fcm";
+
+  supports(target: PushTarget): boolean {
+    return target.type === "fcm";
+  }
+
+  async send(
+    target: PushTarget,
+    payload: PushPayload,
+  ): Promise<SendNotificationResult> {
+    try {
+      const messaging = getMessaging();
+      const response = await messaging.send(this.buildMessage(target, payload));
+      console.log("✅ Notification sent successfully:", response);
+      return { success: true, messageId: response, provider: this.name };
+    } catch (error) {
+      console.error("❌ Failed to send notification:", error);
+      throw error;
+    }
+  }
+
+  async sendBatch(
+    messages: PushMessage[],
+  ): Promise<Array<PromiseSettledResult<SendNotificationResult>>> {
+    const messaging = getMessaging();
+    const results: Array<PromiseSettledResult<SendNotificationResult>> = [];
+
+    for (let i = 0; i < messages.length; i += FCM_BATCH_LIMIT) {
+      const chunk = messages.slice(i, i + FCM_BATCH_LIMIT);
+      const response = await messaging.sendEach(
+        chunk.map(({ target, payload }) => this.buildMessage(target, payload)),
+      );
+      console.log(
+        `✅ FCM batch sent: ${response.successCount} succeeded, ${response.failureCount} failed`,
+      );
+
+      for (const item of response.responses) {
+        results.push(
+          item.success && item.messageId
+            ? {
+                status: "fulfilled",
+                value: {
+                  success: true,
+                  messageId: item.messageId,
+                  provider: this.name,
+                },
+              }
+            : { status: "rejected", reason: item.error },
+        );
+      }
+    }
+
+    return results;
+  }
+
+  private buildMessage(
+    target: PushTarget,
+    payload: PushPayload,
+  ): admin.messaging.Message {
+    if (target.type !== "fcm") {
+      throw new Error(`FCM provider cannot deliver to ${target.type} targets`);
+    }
+
+    // FCM has no fields for these, so the app reads them from the data;
+    // data values must be strings
+    const data: Record<string, string> = {
+      ...payload.data,
+      ...(payload.icon && { icon: payload.icon }),
+      ...(payload.url && { url: payload.url }),
+      ...(payload.actions && { actions: JSON.stringify(payload.actions) }),
+    };
+
+    // Background push: no notification block, and APNs requires priority 5
+    // for content-available messages
+    if (payload.dataOnly) {
+      return {
+        token: target.token,
+        data: data,
+        android: {
+          priority: "high",
+          ...(payload.tag && { collapseKey: payload.tag }),
+        },
+        apns: {
+          headers: {
+            "apns-priority": "5",
+            "apns-push-type": "background",
+            ...(payload.tag && { "apns-collapse-id": payload.tag }),
+          },
+          payload: {
+            aps: { contentAvailable: true },
+          },
+        },
+      };
+    }
+
+    // Encrypted push: no readable notification block. Android apps decrypt in
+    // the background and show it themselves; on iOS the app's notification
+    // service extension replaces the placeholder alert.
+    if (payload.encrypted) {
+      return {
+        token: target.token,
+        data: {
+          ...data,
+          encrypted: payload.encrypted,
+          ...(payload.silent && { silent: "true" }),
+        },
+        android: {
+          priority: "high",
+          ...(payload.tag && { collapseKey: payload.tag }),
+        },
+        apns: {
+          headers: {
+            "apns-priority": "10",
+            ...(payload.tag && { "apns-collapse-id": payload.tag }),
+          },
+          payload: {
+            aps: {
+              alert: { title: ENCRYPTED_PLACEHOLDER_TITLE },
+              ...(payload.silent
+                ? { "interruption-level": "passive" }
+                : { sound: "default" }),
+              mutableContent: true,
+            },
+          },
+        },
+      };
+    }
+
+    return {
+      token: target.token,
+      notification: {
+        title: payload.title,
+        body: payload.body,
+        ...(payload.image && { imageUrl: payload.image }),
+      },
+      data: data,
+      android: {
+        priority: "high",
+        ...(payload.tag && { collapseKey: payload.tag }),
+        notification: {
+          clickAction: "OPEN_ACTIVITY_1",
+          ...(payload.androidChannelId && { channelId: payload.androidChannelId }),
+          ...(payload.tag && { tag: payload.tag }),
+          ...(payload.badge && { notificationCount: payload.badge }),
+          ...(payload.silent
+            ? { priority: "low", defaultSound: false, defaultVibrateTimings: false }
+            : payload.sound && { sound: payload.sound }),
+        },
+      },
+      apns: {
+        headers: {
+          "apns-priority": "10",
+          ...(payload.tag && { "apns-collapse-id": payload.tag }),
+        },
+        ...(payload.image && { fcmOptions: { imageUrl: payload.image } }),
+        payload: {
+          aps: {
+            alert: {
+              title: payload.title,
+              body: payload.body,
+            },
+            // Silent notifications skip the sound and do not light up the screen
+            ...(payload.silent
+              ? { "interruption-level": "passive" }
+              : { sound: payload.sound || "default" }),
+            badge: payload.badge || 1,
+            // Lets the app's notification service extension attach the image
+            // and action buttons before the notification is shown
+            ...((payload.image || payload.actions) && { mutableContent: true }),
+          },
+        },
+      },
+    };
+  }
+}
@@ -0,0 +1,148 @@
+import "../config/env";
+import { FcmProvider } from "./fcmProvider";
+import { MockPushProvider } from "./mockProvider";
+import {
+  PushMessage,
+  PushPayload,
+  PushProvider,
+  PushProviderMode,
+  PushTarget,
+  SendNotificationResult,
+} from "./types";
+import { WebPushProvider } from "./webPushProvider";
+
+let providers: PushProvider[] | null = null;
+
+/**
+ * Push transport selected by PUSH_PROVIDER (defaults to live FCM + Web Push)
+ */
+export function getPushProviderMode(): PushProviderMode {
+  const mode = (process.env.PUSH_PROVIDER || "live").toLowerCase();
+  if (mode !== "live" && mode !== "mock") {
+    throw new Error(
+      `Unsupported PUSH_PROVIDER "${mode}" - expected "live" or "mock"`,
+    );
+  }
+  return mode;
+}
+
+/**
+ * Get the configured push providers, creating them on first use
+ */
+export function getPushProviders(): PushProvider[] {
+  if (!providers) {
+    providers =
+      getPushProviderMode() === "mock"
+        ? [new MockPushProvider()]
+        : [new FcmProvider(), new WebPushProvider()];
+    console.log(
+      `📡 Using push providers: ${providers.map((p) => p.name).join(", ")}`,
+    );
+  }
+  return providers;
+}
+
+/**
+ * Replace the active providers (e.g. with a MockPushProvider in tests)
+ */
+export function setPushProviders(newProviders: PushProvider[]): void {
+  providers = newProviders;
+}
+
+/**
+ * Pick the delivery target for a stored subscription, preferring FCM
+ */
+export function getPushTarget(subscription: {
+  fcmToken?: string | undefined;
+  endpoint?: string | undefined;
+  keys?: { p256dh: string; auth: string } | undefined;
+}): PushTarget | null {
+  if (subscription.fcmToken) {
+    return { type: "fcm", token: subscription.fcmToken };
+  }
+  if (subscription.endpoint && subscription.keys) {
+    return {
+      type: "webpush",
+      subscription: { endpoint: subscription.endpoint, keys: subscription.keys },
+    };
+  }
+  return null;
+}
+
+/**
+ * Send a push notification through whichever provider handles the target
+ */
+export async function sendNotification(
+  target: PushTarget,
+  payload: PushPayload,
+): Promise<SendNotificationResult> {
+  const provider = getPushProviders().find((p) => p.supports(target));
+  if (!provider) {
+    throw new Error(`No push provider configured for ${target.type} targets`);
+  }
+  return provider.send(target, payload);
+}
+
+/**
+ * Send many messages, grouping them by provider so FCM can use sendEach().
+ * Results are in the same order as the input.
+ */
+export async function sendNotificationBatch(
+  messages: PushMessage[],
+): Promise<Array<PromiseSettledResult<SendNotificationResult>>> {
+  const results: Array<PromiseSettledResult<SendNotificationResult>> =
+    new Array(messages.length);
+  const groups = new Map<PushProvider, number[]>();
+
+  messages.forEach((message, index) => {
+    const provider = getPushProviders().find((p) => p.supports(message.target));
+    if (!provider) {
+      results[index] = {
+        status: "rejected",
+        reason: new Error(
+          `No push provider configured for ${message.target.type} targets`,
+        ),
+      };
+      return;
+    }
+    groups.set(provider, [...(groups.get(provider) || []), index]);
+  });
+
+  await Promise.all(
+    Array.from(groups.entries()).map(async ([provider, indexes]) => {
+      try {
+        const providerResults = await provider.sendBatch(
+          indexes.map((index) => messages[index] as PushMessage),
+        );
+        indexes.forEach((index, i) => {
+          results[index] = providerResults[i] ?? {
+            status: "rejected",
+            reason: new Error(`${provider.name} returned no result`),
+          };
+        });
+      } catch (error) {
+        indexes.forEach((index) => {
+          results[index] = { status: "rejected", reason: error };
+        });
+      }
+    }),
+  );
+
+  return results;
+}
+
+export * from "./types";
+export {
+  getPushErrorCode,
+  isInvalidTokenCode,
+  isInvalidTokenError,
+  isRetryableCode,
+} from "./errors";
+export {
+  MockPushProvider,
+  RecordedMessage,
+  createFcmError,
+  createWebPushError,
+} from "./mockProvider";
+export { FcmProvider } from "./fcmProvider";
+export { WebPushProvider } from "./webPushProvider";
@@ -0,0 +1,120 @@
+import { v4 as uuidv4 } from "uuid";
+import { WebPushError } from "web-push";
+import {
+  PushMessage,
+  PushPayload,
+  PushProvider,
+  PushTarget,
+  SendNotificationResult,
+} from "./types";
+
+export interface RecordedMessage {
+  messageId: string;
+  target: PushTarget;
+  payload: PushPayload;
+  sentAt: number;
+}
+
+/**
+ * Build an error shaped like the ones firebase-admin throws for FCM failures
+ */
+export function createFcmError(
+  code: string,
+  message = `Simulated FCM error: ${code}`,
+): Error & { code: string } {
+  return Object.assign(new Error(message), { code });
+}
+
+/**
+ * Build the error web-push throws when an endpoint responds with a non-2xx status
+ */
+export function createWebPushError(
+  statusCode: number,
+  endpoint = "https://push.example.invalid",
+): WebPushError {
+  return new WebPushError(
+    `Received unexpected response code ${statusCode}`,
+    statusCode,
+    {},
+    "",
+    endpoint,
+  );
+}
+
+function targetKey(target: PushTarget): string {
+  return target.type === "fcm" ? target.token : target.subscription.endpoint;
+}
+
+/**
+ * Records outgoing messages instead of delivering them, and can be told to
+ * fail for specific targets so error paths can be exercised offline.
+ */
+export class MockPushProvider implements PushProvider {
+  readonly name = "mock";
+  readonly sent: RecordedMessage[] = [];
+  private readonly targetErrors = new Map<string, Error>();
+  private readonly queuedErrors: Error[] = [];
+
+  supports(): boolean {
+    return true;
+  }
+
+  async send(
+    target: PushTarget,
+    payload: PushPayload,
+  ): Promise<SendNotificationResult> {
+    const error =
+      this.queuedErrors.shift() || this.targetErrors.get(targetKey(target));
+    if (error) {
+      console.log(`🧪 Mock push provider simulating failure: ${error.message}`);
+      throw error;
+    }
+
+    const messageId = `mock-${uuidv4()}`;
+    this.sent.push({
+      messageId,
+      target: structuredClone(target),
+      payload: structuredClone(payload),
+      sentAt: Date.now(),
+    });
+    console.log(`🧪 Mock push provider recorded message ${messageId}`);
+    return { success: true, messageId, provider: this.name };
+  }
+
+  async sendBatch(
+    messages: PushMessage[],
+  ): Promise<Array<PromiseSettledResult<SendNotificationResult>>> {
+    return Promise.allSettled(
+      messages.map(({ target, payload }) => this.send(target, payload)),
+    );
+  }
+
+  /**
+   * Fail every send to the given FCM token or Web Push endpoint
+   */
+  failFor(tokenOrEndpoint: string, error: Error): void {
+    this.targetErrors.set(tokenOrEndpoint, error);
+  }
+
+  /**
+   * Fail the next send regardless of target
+   */
+  failNext(error: Error): void {
+    this.queuedErrors.push(error);
+  }
+
+  /**
+   * Messages recorded for a given FCM token or Web Push endpoint
+   */
+  sentTo(tokenOrEndpoint: string): RecordedMessage[] {
+    return this.sent.filter(
+      (message) => targetKey(message.target) === tokenOrEndpoint,
+    );
+  }
+
+  reset(): void {
+    this.sent.length = 0;
+    this.queuedErrors.length = 0;
+    this.targetErrors.clear();
+  }
+}
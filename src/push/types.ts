@@ -0,0 +1,70 @@
+/**
+ * Push transport abstraction. Each provider delivers a payload to one
+ * kind of device target (an FCM registration token or a Web Push endpoint).
+ */
+
+export interface WebPushSubscription {
+  endpoint: string;
+  keys: {
+    p256dh: string;
+    auth: string;
+  };
+}
+
+export type PushTarget =
+  | { type: "fcm"; token: string }
+  | { type: "webpush"; subscription: WebPushSubscription };
+
+export interface PushAction {
+  id: string;
+  title: string;
+  url?: string;
+}
+
+export interface PushPayload {
+  title: string;
+  body: string;
+  icon?: string | undefined;
+  badge?: number | undefined;
+  image?: string;
+  // Opened when the notification is tapped
+  url?: string;
+  actions?: PushAction[];
+  sound?: string;
+  androidChannelId?: string;
+  data?: Record<string, string>;
+  // Show without sound or vibration
+  silent?: boolean;
+  // Collapse key: a newer notification with the same tag replaces this one
+  tag?: string;
+  // Wake the app in the background with the data only; nothing is displayed
+  // and the title and body are empty
+  dataOnly?: boolean;
+  // Ciphertext the app decrypts into the notification it shows; the title
+  // and body are empty
+  encrypted?: string;
+}
+
+export interface SendNotificationResult {
+  success: boolean;
+  messageId: string;
+  provider: string;
+}
+
+export interface PushMessage {
+  target: PushTarget;
+  payload: PushPayload;
+}
+
+export interface PushProvider {
+  readonly name: string;
+  /** Whether this provider can deliver to the given target */
+  supports(target: PushTarget): boolean;
+  send(target: PushTarget, payload: PushPayload): Promise<SendNotificationResult>;
+  /** Send many messages; results are in the same order as the input */
+  sendBatch(
+    messages: PushMessage[],
+  ): Promise<Array<PromiseSettledResult<SendNotificationResult>>>;
+}
+
+export type PushProviderMode = "live" | "mock";
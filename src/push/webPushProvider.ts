@@ -0,0 +1,130 @@
+import * as crypto from "crypto";
+import * as webpush from "web-push";
+import {
+  PushMessage,
+  PushPayload,
+  PushProvider,
+  PushTarget,
+  SendNotificationResult,
+} from "./types";
+
+// Web Push topics are at most 32 URL-safe base64 characters
+const WEB_PUSH_TOPIC_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+
+function toWebPushTopic(tag: string): string {
+  return WEB_PUSH_TOPIC_PATTERN.test(tag)
+    ? tag
+    : crypto.createHash("sha256").update(tag).digest("base64url").substring(0, 32);
+}
+
+/**
+ * JSON the service worker receives. Notifications are shaped for
+ * showNotification(); dataOnly messages are for syncing and are not shown,
+ * and encrypted ones must be decrypted before they can be.
+ */
+function buildNotificationBody(payload: PushPayload): string {
+  if (payload.dataOnly) {
+    return JSON.stringify({ dataOnly: true, data: payload.data || {} });
+  }
+  if (payload.encrypted) {
+    return JSON.stringify({
+      encrypted: payload.encrypted,
+      data: payload.data || {},
+      ...(payload.silent && { silent: true }),
+      ...(payload.tag && { tag: payload.tag }),
+    });
+  }
+
+  return JSON.stringify({
+    title: payload.title,
+    body: payload.body,
+    icon: payload.icon || '/default-icon.png',
+    badge: payload.badge || '/default-badge.png',
+    ...(payload.image && { image: payload.image }),
+    // The service worker opens these URLs on click
+    ...(payload.actions && {
+      actions: payload.actions.map(({ id, title }) => ({ action: id, title })),
+    }),
+    data: {
+      ...payload.data,
+      ...(payload.url && { url: payload.url }),
+      ...(payload.actions?.some((action) => action.url) && {
+        actionUrls: Object.fromEntries(
+          payload.actions.flatMap(({ id, url }) => (url ? [[id, url]] : [])),
+        ),
+      }),
+    },
+    ...(payload.silent && { silent: true }),
+    ...(payload.tag && { tag: payload.tag }),
+  });
+}
+
+/**
+ * Delivers notifications to browser Web Push endpoints using VAPID
+ */
+export class WebPushProvider implements PushProvider {
+  readonly name = "webpush";
+
+  constructor() {
+    // Configure web-push VAPID details
+    if (process.env.VAPID_PUBLIC_KEY && process.env.VAPID_PRIVATE_KEY && process.env.VAPID_SUBJECT) {
+      webpush.setVapidDetails(
+        process.env.VAPID_SUBJECT,
+        process.env.VAPID_PUBLIC_KEY,
+        process.env.VAPID_PRIVATE_KEY
+      );
+      console.log('🌐 Web Push VAPID keys configured successfully');
+    } else {
+      console.warn('⚠️ Web Push VAPID keys not configured - Web Push notifications will not work');
+    }
+  }
+
+  supports(target: PushTarget): boolean {
+    return target.type === "webpush";
+  }
+
+  async send(
+    target: PushTarget,
+    payload: PushPayload,
+  ): Promise<SendNotificationResult> {
+    if (target.type !== "webpush") {
+      throw new Error(`Web Push provider cannot deliver to ${target.type} targets`);
+    }
+
+    try {
+      console.log('📤 Sending Web Push notification...');
+
+      const webPushSubscription = {
+        endpoint: target.subscription.endpoint,
+        keys: {
+          p256dh: target.subscription.keys.p256dh,
+          auth: target.subscription.keys.auth,
+        },
+      };
+
+      const notificationPayload = buildNotificationBody(payload);
+
+      // The push service drops an undelivered message when one with the same topic arrives
+      await webpush.sendNotification(
+        webPushSubscription,
+        notificationPayload,
+        payload.tag ? { topic: toWebPushTopic(payload.tag) } : {},
+      );
+      console.log('✅ Web Push notification sent successfully');
+
+      return { success: true, messageId: 'web-push-' + Date.now(), provider: this.name };
+    } catch (error) {
+      console.error('❌ Failed to send Web Push notification:', error);
+      throw error;
+    }
+  }
+
+  async sendBatch(
+    messages: PushMessage[],
+  ): Promise<Array<PromiseSettledResult<SendNotificationResult>>> {
+    // Web Push has no batch API, so each endpoint is a separate request
+    return Promise.allSettled(
+      messages.map(({ target, payload }) => this.send(target, payload)),
+    );
+  }
+}
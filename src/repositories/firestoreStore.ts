@@ -0,0 +1,143 @@
+import * as admin from "firebase-admin";
+import {
+  DocumentCollection,
+  DocumentStore,
+  QueryFilter,
+  QueryOptions,
+  StoredDocument,
+} from "./types";
+
+// gRPC status Firestore returns when create() finds an existing document
+const ALREADY_EXISTS = 6;
+
+/**
+ * Firestore rejects undefined field values, so drop them before writing
+ */
+function stripUndefined<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map((item) => stripUndefined(item)) as unknown as T;
+  }
+  if (value && typeof value === "object" && value.constructor === Object) {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      if (item !== undefined) {
+        result[key] = stripUndefined(item);
+      }
+    }
+    return result as T;
+  }
+  return value;
+}
+
+class FirestoreCollection<T> implements DocumentCollection<T> {
+  constructor(private readonly ref: admin.firestore.CollectionReference) {}
+
+  async get(id: string): Promise<T | null> {
+    const doc = await this.ref.doc(id).get();
+    return doc.exists ? (doc.data() as T) : null;
+  }
+
+  async set(id: string, data: T): Promise<void> {
+    await this.ref.doc(id).set(stripUndefined(data) as admin.firestore.DocumentData);
+  }
+
+  async create(id: string, data: T): Promise<boolean> {
+    try {
+      await this.ref.doc(id).create(stripUndefined(data) as admin.firestore.DocumentData);
+      return true;
+    } catch (error) {
+      if ((error as { code?: number }).code === ALREADY_EXISTS) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async update(id: string, fields: Partial<T>): Promise<void> {
+    await this.ref
+      .doc(id)
+      .update(stripUndefined(fields) as admin.firestore.UpdateData<admin.firestore.DocumentData>);
+  }
+
+  async updateIf(
+    id: string,
+    expected: Partial<T>,
+    fields: Partial<T>,
+  ): Promise<boolean> {
+    const docRef = this.ref.doc(id);
+    return this.ref.firestore.runTransaction(async (transaction) => {
+      const doc = await transaction.get(docRef);
+      const data = doc.data();
+      if (!data) {
+        return false;
+      }
+      for (const [field, value] of Object.entries(expected)) {
+        if (data[field] !== value) {
+          return false;
+        }
+      }
+      transaction.update(
+        docRef,
+        stripUndefined(fields) as admin.firestore.UpdateData<admin.firestore.DocumentData>,
+      );
+      return true;
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.ref.doc(id).delete();
+  }
+
+  async add(data: T): Promise<string> {
+    const doc = await this.ref.add(stripUndefined(data) as admin.firestore.DocumentData);
+    return doc.id;
+  }
+
+  async find(
+    filters: QueryFilter[] = [],
+    options: QueryOptions = {},
+  ): Promise<Array<StoredDocument<T>>> {
+    let query: admin.firestore.Query = this.ref;
+    for (const filter of filters) {
+      query = query.where(filter.field, filter.op, filter.value);
+    }
+    if (options.orderBy) {
+      query = query.orderBy(
+        options.orderBy.field,
+        options.orderBy.direction || "asc",
+      );
+    }
+    if (options.limit !== undefined) {
+      query = query.limit(options.limit);
+    }
+
+    const snapshot = await query.get();
+    return snapshot.docs.map((doc) => ({ id: doc.id, data: doc.data() as T }));
+  }
+
+  async count(filters: QueryFilter[] = []): Promise<number> {
+    let query: admin.firestore.Query = this.ref;
+    for (const filter of filters) {
+      query = query.where(filter.field, filter.op, filter.value);
+    }
+    const snapshot = await query.count().get();
+    return snapshot.data().count;
+  }
+}
+
+/**
+ * Document store backed by Cloud Firestore
+ */
+export class FirestoreStore implements DocumentStore {
+  readonly backend = "firestore" as const;
+
+  constructor(private readonly db: admin.firestore.Firestore) {}
+
+  collection<T>(name: string): DocumentCollection<T> {
+    return new FirestoreCollection<T>(this.db.collection(name));
+  }
+
+  async ping(): Promise<void> {
+    await this.db.collection("_health").limit(1).get();
+  }
+}
@@ -0,0 +1,111 @@
+import "../config/env";
+import { getFirestore } from "../config/firebase";
+import {
+  ApiKeyInfo,
+  ApiUsageLog,
+  DeadLetter,
+  DeliveryJob,
+  EventLog,
+  IdempotencyRecord,
+  NotificationLog,
+  NotificationTemplate,
+  QuotaCounter,
+  RateLimitCounter,
+  RequestNonce,
+  ScheduledNotification,
+  UserSubscription,
+  WebhookDelivery,
+  WebhookEndpoint,
+} from "../types";
+import { FirestoreStore } from "./firestoreStore";
+import { MemoryStore } from "./memoryStore";
+import { DocumentCollection, DocumentStore, StorageBackend } from "./types";
+
+export interface Repositories {
+  subscriptions: DocumentCollection<UserSubscription>;
+  apiKeys: DocumentCollection<ApiKeyInfo>;
+  notifications: DocumentCollection<NotificationLog>;
+  events: DocumentCollection<EventLog>;
+  apiUsage: DocumentCollection<ApiUsageLog>;
+  scheduledNotifications: DocumentCollection<ScheduledNotification>;
+  deliveryQueue: DocumentCollection<DeliveryJob>;
+  deadLetters: DocumentCollection<DeadLetter>;
+  quotaCounters: DocumentCollection<QuotaCounter>;
+  rateLimits: DocumentCollection<RateLimitCounter>;
+  requestNonces: DocumentCollection<RequestNonce>;
+  idempotencyKeys: DocumentCollection<IdempotencyRecord>;
+  templates: DocumentCollection<NotificationTemplate>;
+  webhooks: DocumentCollection<WebhookEndpoint>;
+  webhookDeliveries: DocumentCollection<WebhookDelivery>;
+}
+
+let store: DocumentStore | null = null;
+let repositories: Repositories | null = null;
+
+/**
+ * Storage backend selected by STORAGE_BACKEND (defaults to Firestore)
+ */
+export function getStorageBackend(): StorageBackend {
+  const backend = (process.env.STORAGE_BACKEND || "firestore").toLowerCase();
+  if (backend !== "firestore" && backend !== "memory") {
+    throw new Error(
+      `Unsupported STORAGE_BACKEND "${backend}" - expected "firestore" or "memory"`,
+    );
+  }
+  return backend;
+}
+
+/**
+ * Get the configured document store, creating it on first use
+ */
+export function getStore(): DocumentStore {
+  if (!store) {
+    store =
+      getStorageBackend() === "memory"
+        ? new MemoryStore()
+        : new FirestoreStore(getFirestore());
+    console.log(`🗄️ Using ${store.backend} storage backend`);
+  }
+  return store;
+}
+
+/**
+ * Replace the active store (e.g. with a fresh MemoryStore between tests)
+ */
+export function setStore(newStore: DocumentStore): void {
+  store = newStore;
+  repositories = null;
+}
+
+/**
+ * Get typed collections for every entity the service persists
+ */
+export function getRepositories(): Repositories {
+  if (!repositories) {
+    const active = getStore();
+    repositories = {
+      subscriptions: active.collection<UserSubscription>("subscriptions"),
+      apiKeys: active.collection<ApiKeyInfo>("apiKeys"),
+      notifications: active.collection<NotificationLog>("notifications"),
+      events: active.collection<EventLog>("events"),
+      apiUsage: active.collection<ApiUsageLog>("apiUsage"),
+      scheduledNotifications: active.collection<ScheduledNotification>(
+        "scheduledNotifications",
+      ),
+      deliveryQueue: active.collection<DeliveryJob>("deliveryQueue"),
+      deadLetters: active.collection<DeadLetter>("deadLetters"),
+      quotaCounters: active.collection<QuotaCounter>("quotaCounters"),
+      rateLimits: active.collection<RateLimitCounter>("rateLimits"),
+      requestNonces: active.collection<RequestNonce>("requestNonces"),
+      idempotencyKeys: active.collection<IdempotencyRecord>("idempotencyKeys"),
+      templates: active.collection<NotificationTemplate>("templates"),
+      webhooks: active.collection<WebhookEndpoint>("webhooks"),
+      webhookDeliveries: active.collection<WebhookDelivery>("webhookDeliveries"),
+    };
+  }
+  return repositories;
+}
+
+export * from "./types";
+export { FirestoreStore } from "./firestoreStore";
+export { MemoryStore } from "./memoryStore";
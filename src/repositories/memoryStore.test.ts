@@ -0,0 +1,82 @@
+import { getRepositories, getStore, MemoryStore, setStore } from ".";
+
+interface Item {
+  name: string;
+  score: number;
+  tags?: string[];
+}
+
+describe("MemoryStore", () => {
+  let store: MemoryStore;
+
+  beforeEach(() => {
+    store = new MemoryStore();
+  });
+
+  it("round-trips documents without sharing references", async () => {
+    const items = store.collection<Item>("items");
+    const item = { name: "a", score: 1, tags: ["x"] };
+
+    await items.set("a", item);
+    item.tags.push("y");
+
+    expect(await items.get("a")).toEqual({ name: "a", score: 1, tags: ["x"] });
+    expect(await items.get("missing")).toBeNull();
+  });
+
+  it("updates fields of an existing document only", async () => {
+    const items = store.collection<Item>("items");
+    await items.set("a", { name: "a", score: 1 });
+
+    await items.update("a", { score: 2 });
+
+    expect(await items.get("a")).toEqual({ name: "a", score: 2 });
+    await expect(items.update("missing", { score: 2 })).rejects.toThrow();
+  });
+
+  it("adds documents under generated IDs and deletes them", async () => {
+    const items = store.collection<Item>("items");
+
+    const id = await items.add({ name: "a", score: 1 });
+    expect(await items.get(id)).toEqual({ name: "a", score: 1 });
+
+    await items.delete(id);
+    await items.delete(id);
+    expect(await items.get(id)).toBeNull();
+  });
+
+  it("filters, orders and limits queries", async () => {
+    const items = store.collection<Item>("items");
+    await items.set("a", { name: "a", score: 3, tags: ["red"] });
+    await items.set("b", { name: "b", score: 1, tags: ["blue"] });
+    await items.set("c", { name: "c", score: 2, tags: ["red"] });
+
+    const red = await items.find(
+      [{ field: "tags", op: "array-contains", value: "red" }],
+      { orderBy: { field: "score", direction: "desc" } },
+    );
+    expect(red.map(({ id }) => id)).toEqual(["a", "c"]);
+
+    const lowest = await items.find(
+      [{ field: "score", op: ">=", value: 1 }],
+      { orderBy: { field: "score" }, limit: 2 },
+    );
+    expect(lowest.map(({ data }) => data.name)).toEqual(["b", "c"]);
+
+    const named = await items.find([{ field: "name", op: "in", value: ["a", "b"] }]);
+    expect(named).toHaveLength(2);
+  });
+
+  it("keeps collections apart", async () => {
+    await store.collection<Item>("one").set("a", { name: "a", score: 1 });
+    expect(await store.collection<Item>("two").get("a")).toBeNull();
+  });
+
+  it("backs the repositories when STORAGE_BACKEND is memory", async () => {
+    expect(getStore().backend).toBe("memory");
+
+    setStore(store);
+    await getRepositories().events.add({ type: "test", timestamp: 1 });
+    expect(await store.collection("events").find()).toHaveLength(1);
+  });
+});
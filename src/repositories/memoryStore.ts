@@ -0,0 +1,159 @@
+import { v4 as uuidv4 } from "uuid";
+import {
+  DocumentCollection,
+  DocumentStore,
+  QueryFilter,
+  QueryOptions,
+  StoredDocument,
+} from "./types";
+
+function compare(a: unknown, b: unknown): number {
+  if (a === b) return 0;
+  if (a === undefined || a === null) return -1;
+  if (b === undefined || b === null) return 1;
+  return (a as number | string) < (b as number | string) ? -1 : 1;
+}
+
+function matches(doc: Record<string, unknown>, filter: QueryFilter): boolean {
+  const actual = doc[filter.field];
+  // Like Firestore, range filters never match missing or null fields
+  const comparable = actual !== undefined && actual !== null;
+
+  switch (filter.op) {
+    case "==":
+      return actual === filter.value;
+    case "!=":
+      return actual !== undefined && actual !== filter.value;
+    case "<":
+      return comparable && compare(actual, filter.value) < 0;
+    case "<=":
+      return comparable && compare(actual, filter.value) <= 0;
+    case ">":
+      return comparable && compare(actual, filter.value) > 0;
+    case ">=":
+      return comparable && compare(actual, filter.value) >= 0;
+    case "array-contains":
+      return Array.isArray(actual) && actual.includes(filter.value);
+    case "in":
+      return Array.isArray(filter.value) && filter.value.includes(actual);
+  }
+}
+
+class MemoryCollection<T> implements DocumentCollection<T> {
+  private readonly docs = new Map<string, T>();
+
+  async get(id: string): Promise<T | null> {
+    const doc = this.docs.get(id);
+    return doc === undefined ? null : structuredClone(doc);
+  }
+
+  async set(id: string, data: T): Promise<void> {
+    this.docs.set(id, structuredClone(data));
+  }
+
+  async create(id: string, data: T): Promise<boolean> {
+    if (this.docs.has(id)) {
+      return false;
+    }
+    this.docs.set(id, structuredClone(data));
+    return true;
+  }
+
+  async update(id: string, fields: Partial<T>): Promise<void> {
+    const existing = this.docs.get(id);
+    if (existing === undefined) {
+      throw new Error(`No document to update: ${id}`);
+    }
+    this.docs.set(id, { ...existing, ...structuredClone(fields) });
+  }
+
+  async updateIf(
+    id: string,
+    expected: Partial<T>,
+    fields: Partial<T>,
+  ): Promise<boolean> {
+    const existing = this.docs.get(id);
+    if (existing === undefined) {
+      return false;
+    }
+    for (const [field, value] of Object.entries(expected)) {
+      if ((existing as Record<string, unknown>)[field] !== value) {
+        return false;
+      }
+    }
+    this.docs.set(id, { ...existing, ...structuredClone(fields) });
+    return true;
+  }
+
+  async delete(id: string): Promise<void> {
+    this.docs.delete(id);
+  }
+
+  async add(data: T): Promise<string> {
+    const id = uuidv4();
+    this.docs.set(id, structuredClone(data));
+    return id;
+  }
+
+  async find(
+    filters: QueryFilter[] = [],
+    options: QueryOptions = {},
+  ): Promise<Array<StoredDocument<T>>> {
+    let results = Array.from(this.docs.entries())
+      .filter(([, data]) =>
+        filters.every((filter) =>
+          matches(data as Record<string, unknown>, filter),
+        ),
+      )
+      .map(([id, data]) => ({ id, data: structuredClone(data) }));
+
+    const { orderBy } = options;
+    if (orderBy) {
+      const direction = orderBy.direction === "desc" ? -1 : 1;
+      results.sort(
+        (a, b) =>
+          direction *
+          compare(
+            (a.data as Record<string, unknown>)[orderBy.field],
+            (b.data as Record<string, unknown>)[orderBy.field],
+          ),
+      );
+    }
+    if (options.limit !== undefined) {
+      results = results.slice(0, options.limit);
+    }
+    return results;
+  }
+
+  async count(filters: QueryFilter[] = []): Promise<number> {
+    let count = 0;
+    for (const data of this.docs.values()) {
+      if (filters.every((filter) => matches(data as Record<string, unknown>, filter))) {
+        count++;
+      }
+    }
+    return count;
+  }
+}
+
+/**
+ * In-process document store for offline development and CI.
+ * Data lives only as long as the process does.
+ */
+export class MemoryStore implements DocumentStore {
+  readonly backend = "memory" as const;
+  private readonly collections = new Map<string, MemoryCollection<unknown>>();
+
+  collection<T>(name: string): DocumentCollection<T> {
+    let collection = this.collections.get(name);
+    if (!collection) {
+      collection = new MemoryCollection<unknown>();
+      this.collections.set(name, collection);
+    }
+    return collection as DocumentCollection<T>;
+  }
+
+  async ping(): Promise<void> {
+    return;
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Storage abstraction shared by the Firestore and local backends.
+ * Collections are keyed documents; queries only support top-level fields.
+ */
+
+export type QueryOperator =
+  | "=="
+  | "!="
+  | "<"
+  | "<="
+  | ">"
+  | ">="
+  | "array-contains"
+  | "in";
+
+export interface QueryFilter {
+  field: string;
+  op: QueryOperator;
+  value: unknown;
+}
+
+export interface QueryOptions {
+  orderBy?: {
+    field: string;
+    direction?: "asc" | "desc";
+  };
+  limit?: number;
+}
+
+export interface StoredDocument<T> {
+  id: string;
+  data: T;
+}
+
+export interface DocumentCollection<T> {
+  /** Returns the document, or null if it does not exist */
+  get(id: string): Promise<T | null>;
+  /** Creates or fully replaces a document */
+  set(id: string, data: T): Promise<void>;
+  /** Creates a document only if none exists; returns false if one already does */
+  create(id: string, data: T): Promise<boolean>;
+  /** Replaces the given top-level fields; fails if the document does not exist */
+  update(id: string, fields: Partial<T>): Promise<void>;
+  /**
+   * Atomically replaces the given fields only if every field in `expected`
+   * currently has that value. Returns false if the document is missing or
+   * did not match.
+   */
+  updateIf(id: string, expected: Partial<T>, fields: Partial<T>): Promise<boolean>;
+  /** Removes a document; a no-op if it does not exist */
+  delete(id: string): Promise<void>;
+  /** Stores a document under a generated ID and returns the ID */
+  add(data: T): Promise<string>;
+  /** Returns all documents matching every filter */
+  find(
+    filters?: QueryFilter[],
+    options?: QueryOptions,
+  ): Promise<Array<StoredDocument<T>>>;
+  /** Counts the documents matching every filter without reading them */
+  count(filters?: QueryFilter[]): Promise<number>;
+}
+
+export interface DocumentStore {
+  readonly backend: StorageBackend;
+  collection<T>(name: string): DocumentCollection<T>;
+  /** Verifies that the underlying storage is reachable */
+  ping(): Promise<void>;
+}
+
+export type StorageBackend = "firestore" | "memory";
@@ -0,0 +1,725 @@
+import express from "express";
+import Joi from "joi";
+import { validateApiKey, requirePermission } from "../middleware/auth";
+import { IDENTITY_KEY_PATTERN } from "../middleware/identityAuth";
+import { strictRateLimitMiddleware } from "../middleware/rateLimiter";
+import { getRepositories } from "../repositories";
+import {
+  API_KEY_PERMISSIONS,
+  DEFAULT_API_KEY_PERMISSIONS,
+  DEFAULT_ROTATION_GRACE_SECONDS,
+  createApiKey,
+  findApiKeyByIdentity,
+  getApiKey,
+  getApiKeyUsage,
+  issueSigningSecret,
+  listApiKeys,
+  migrateLegacyApiKeys,
+  revokeApiKey,
+  scrubLegacyApiUsage,
+  rotateApiKey,
+  toApiKeySummary,
+  updateApiKey,
+} from "../services/apiKeyService";
+import { replayDeadLetter } from "../services/queueService";
+import { isRequestSigningConfigured } from "../services/requestSigningService";
+import { AuthenticatedRequest } from "../types";
+
+const router = express.Router();
+
+// Every admin route requires an API key with the admin permission
+router.use(validateApiKey, requirePermission("admin"));
+
+function parseLimit(value: unknown): number {
+  const limit = parseInt(typeof value === "string" ? value : "", 10);
+  return Number.isNaN(limit) ? 50 : Math.min(Math.max(limit, 1), 500);
+}
+
+// Recorded as createdBy on keys issued through the admin API
+function getActor(req: AuthenticatedRequest): string {
+  return req.apiKeyInfo?.keyId || req.apiKeyInfo?.origin || "admin";
+}
+
+const permissionsSchema = Joi.array()
+  .items(Joi.string().valid(...API_KEY_PERMISSIONS))
+  .min(1)
+  .unique();
+
+const originsSchema = Joi.array().items(Joi.string().max(253)).max(20).unique();
+
+// Notifications per window; 0 turns the limit off, omitted uses the server default
+const quotaSchema = Joi.object({
+  hourly: Joi.number().integer().min(0).optional(),
+  daily: Joi.number().integer().min(0).optional(),
+});
+
+const quotasSchema = Joi.object({
+  origin: quotaSchema.optional(),
+  user: quotaSchema.optional(),
+  data: Joi.object({
+    origin: quotaSchema.optional(),
+    user: quotaSchema.optional(),
+  }).optional(),
+});
+
+// Requests per 15 minutes by kind of endpoint; omitted uses the server default
+const rateLimitsSchema = Joi.object({
+  send: Joi.number().integer().min(1).optional(),
+  batch: Joi.number().integer().min(1).optional(),
+  subscriptions: Joi.number().integer().min(1).optional(),
+  general: Joi.number().integer().min(1).optional(),
+});
+
+// Validation schema for issuing an API key
+const createApiKeySchema = Joi.object({
+  origin: Joi.string().required().max(253),
+  origins: originsSchema.optional(),
+  permissions: permissionsSchema.default(DEFAULT_API_KEY_PERMISSIONS),
+  environment: Joi.string().valid("development", "production").optional(),
+  name: Joi.string().max(100).optional(),
+  expiresAt: Joi.number().integer().positive().optional(),
+  identityKey: Joi.string().pattern(IDENTITY_KEY_PATTERN).lowercase().optional(),
+  quotas: quotasSchema.optional(),
+  rateLimits: rateLimitsSchema.optional(),
+});
+
+// Validation schema for changing an API key
+const updateApiKeySchema = Joi.object({
+  requireSignedRequests: Joi.boolean().optional(),
+  permissions: permissionsSchema.optional(),
+  origins: originsSchema.optional(),
+  name: Joi.string().max(100).optional(),
+  expiresAt: Joi.number().integer().allow(null).optional(),
+  identityKey: Joi.string().pattern(IDENTITY_KEY_PATTERN).lowercase().allow(null).optional(),
+  quotas: quotasSchema.allow(null).optional(),
+  rateLimits: rateLimitsSchema.allow(null).optional(),
+}).min(1);
+
+// Validation schema for issuing a request signing secret
+const signingSecretSchema = Joi.object({
+  requireSignedRequests: Joi.boolean().optional(),
+});
+
+// Validation schema for rotating an API key
+const rotateApiKeySchema = Joi.object({
+  gracePeriodSeconds: Joi.number()
+    .integer()
+    .min(0)
+    .max(30 * 24 * 60 * 60)
+    .default(DEFAULT_ROTATION_GRACE_SECONDS),
+  expiresAt: Joi.number().integer().positive().optional(),
+});
+
+/**
+ * GET /api/v1/admin/queue
+ * List delivery jobs waiting for a retry (or being processed)
+ */
+router.get("/queue", async (req, res) => {
+  try {
+    const status =
+      typeof req.query.status === "string" ? req.query.status : "pending";
+
+    const jobs = await getRepositories().deliveryQueue.find(
+      [{ field: "status", op: "==", value: status }],
+      { orderBy: { field: "nextAttemptAt" }, limit: parseLimit(req.query.limit) },
+    );
+
+    res.status(200).json({
+      status: status,
+      count: jobs.length,
+      jobs: jobs.map(({ data }) => data),
+    });
+    return;
+  } catch (error) {
+    console.error("❌ Error listing delivery queue:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to list delivery queue",
+    });
+    return;
+  }
+});
+
+/**
+ * GET /api/v1/admin/dead-letters
+ * List deliveries that exhausted their retries, newest first
+ */
+router.get("/dead-letters", async (req, res) => {
+  try {
+    const deadLetters = await getRepositories().deadLetters.find([], {
+      orderBy: { field: "deadAt", direction: "desc" },
+      limit: parseLimit(req.query.limit),
+    });
+
+    res.status(200).json({
+      count: deadLetters.length,
+      deadLetters: deadLetters.map(({ data }) => data),
+    });
+    return;
+  } catch (error) {
+    console.error("❌ Error listing dead letters:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to list dead letters",
+    });
+    return;
+  }
+});
+
+/**
+ * GET /api/v1/admin/dead-letters/:jobId
+ * Inspect a single dead letter
+ */
+router.get("/dead-letters/:jobId", async (req, res) => {
+  try {
+    const { jobId } = req.params;
+    const deadLetter = await getRepositories().deadLetters.get(jobId);
+
+    if (!deadLetter) {
+      return res.status(404).json({
+        error: "Dead Letter Not Found",
+        message: "No dead letter found with this job ID",
+      });
+    }
+
+    res.status(200).json(deadLetter);
+    return;
+  } catch (error) {
+    console.error("❌ Error reading dead letter:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to read dead letter",
+    });
+    return;
+  }
+});
+
+/**
+ * POST /api/v1/admin/dead-letters/:jobId/replay
+ * Put a dead letter back on the delivery queue
+ */
+router.post(
+  "/dead-letters/:jobId/replay",
+  strictRateLimitMiddleware,
+  async (req, res) => {
+    try {
+      const { jobId } = req.params;
+
+      if (!jobId) {
+        return res.status(400).json({
+          error: "Bad Request",
+          message: "Job ID parameter is required",
+        });
+      }
+
+      const job = await replayDeadLetter(jobId);
+
+      if (!job) {
+        return res.status(404).json({
+          error: "Dead Letter Not Found",
+          message: "No dead letter found with this job ID",
+        });
+      }
+
+      res.status(202).json({
+        success: true,
+        jobId: job.jobId,
+        messageId: job.messageId,
+        message: "Dead letter re-queued for delivery",
+      });
+      return;
+    } catch (error) {
+      console.error("❌ Error replaying dead letter:", error);
+      res.status(500).json({
+        error: "Internal Server Error",
+        message: "Failed to replay dead letter",
+      });
+      return;
+    }
+  },
+);
+
+/**
+ * DELETE /api/v1/admin/dead-letters/:jobId
+ * Discard a dead letter
+ */
+router.delete(
+  "/dead-letters/:jobId",
+  strictRateLimitMiddleware,
+  async (req, res) => {
+    try {
+      const { jobId } = req.params;
+
+      if (!jobId) {
+        return res.status(400).json({
+          error: "Bad Request",
+          message: "Job ID parameter is required",
+        });
+      }
+
+      const { deadLetters } = getRepositories();
+
+      if (!(await deadLetters.get(jobId))) {
+        return res.status(404).json({
+          error: "Dead Letter Not Found",
+          message: "No dead letter found with this job ID",
+        });
+      }
+
+      await deadLetters.delete(jobId);
+
+      res.status(200).json({
+        success: true,
+        message: "Dead letter discarded",
+      });
+      return;
+    } catch (error) {
+      console.error("❌ Error discarding dead letter:", error);
+      res.status(500).json({
+        error: "Internal Server Error",
+        message: "Failed to discard dead letter",
+      });
+      return;
+    }
+  },
+);
+
+/**
+ * GET /api/v1/admin/api-keys
+ * List API keys, optionally filtered by origin or active state
+ */
+router.get("/api-keys", async (req, res) => {
+  try {
+    const origin =
+      typeof req.query.origin === "string" ? req.query.origin : undefined;
+    const active =
+      req.query.active === "true"
+        ? true
+        : req.query.active === "false"
+          ? false
+          : undefined;
+
+    const keys = await listApiKeys(
+      {
+        ...(origin !== undefined && { origin }),
+        ...(active !== undefined && { active }),
+      },
+      parseLimit(req.query.limit),
+    );
+
+    res.status(200).json({
+      count: keys.length,
+      keys: keys,
+    });
+    return;
+  } catch (error) {
+    console.error("❌ Error listing API keys:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to list API keys",
+    });
+    return;
+  }
+});
+
+/**
+ * POST /api/v1/admin/api-keys
+ * Issue a new API key for an origin
+ */
+router.post("/api-keys", strictRateLimitMiddleware, async (req, res) => {
+  try {
+    const { error, value } = createApiKeySchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: "Validation Error",
+        message: error.details[0]?.message || "Validation failed",
+      });
+    }
+
+    if (value.expiresAt && value.expiresAt <= Date.now()) {
+      return res.status(400).json({
+        error: "Validation Error",
+        message: "\"expiresAt\" must be in the future",
+      });
+    }
+
+    if (value.identityKey && (await findApiKeyByIdentity(value.identityKey))) {
+      return res.status(409).json({
+        error: "Conflict",
+        message: "This identity key is already bound to another API key",
+      });
+    }
+
+    const { apiKey, info } = await createApiKey(
+      value,
+      getActor(req as AuthenticatedRequest),
+    );
+
+    console.log(`🔑 API key ${info.keyId} issued for origin: ${info.origin}`);
+    res.status(201).json({
+      success: true,
+      apiKey: apiKey,
+      key: toApiKeySummary(info),
+      message: "Store this API key now - it cannot be retrieved again",
+    });
+    return;
+  } catch (error) {
+    console.error("❌ Error creating API key:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to create API key",
+    });
+    return;
+  }
+});
+
+/**
+ * POST /api/v1/admin/api-keys/migrate
+ * Move every API key still stored in plaintext to hashed storage and remove
+ * plaintext keys from old usage records
+ */
+router.post("/api-keys/migrate", strictRateLimitMiddleware, async (req, res) => {
+  try {
+    const migrated = await migrateLegacyApiKeys();
+    // Keys are migrated first so usage records can be matched to their keyId
+    const scrubbedUsage = await scrubLegacyApiUsage();
+
+    console.log(
+      `🔐 Migrated ${migrated} API keys to hashed storage and scrubbed ${scrubbedUsage} usage records`,
+    );
+    res.status(200).json({
+      success: true,
+      migrated: migrated,
+      scrubbedUsage: scrubbedUsage,
+    });
+    return;
+  } catch (error) {
+    console.error("❌ Error migrating API keys:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to migrate API keys",
+    });
+    return;
+  }
+});
+
+/**
+ * GET /api/v1/admin/api-keys/:keyId
+ * Inspect a single API key
+ */
+router.get("/api-keys/:keyId", async (req, res) => {
+  try {
+    const { keyId } = req.params;
+    const doc = await getApiKey(keyId);
+
+    if (!doc) {
+      return res.status(404).json({
+        error: "API Key Not Found",
+        message: "No API key found with this key ID",
+      });
+    }
+
+    res.status(200).json(toApiKeySummary(doc.data));
+    return;
+  } catch (error) {
+    console.error("❌ Error reading API key:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to read API key",
+    });
+    return;
+  }
+});
+
+/**
+ * PATCH /api/v1/admin/api-keys/:keyId
+ * Change the permissions, extra origins, name, bound identity key, quotas,
+ * rate limits or expiry (null to clear) of an API key
+ */
+router.patch("/api-keys/:keyId", strictRateLimitMiddleware, async (req, res) => {
+  try {
+    const { keyId } = req.params;
+
+    if (!keyId) {
+      return res.status(400).json({
+        error: "Bad Request",
+        message: "Key ID parameter is required",
+      });
+    }
+
+    const { error, value } = updateApiKeySchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: "Validation Error",
+        message: error.details[0]?.message || "Validation failed",
+      });
+    }
+
+    if (value.requireSignedRequests) {
+      const existing = await getApiKey(keyId);
+      if (existing && existing.data.signingSecretVersion === undefined) {
+        return res.status(409).json({
+          error: "Conflict",
+          message: "Issue a signing secret before requiring signed requests",
+        });
+      }
+    }
+
+    if (value.identityKey) {
+      const bound = await findApiKeyByIdentity(value.identityKey);
+      if (bound && bound.data.keyId !== keyId) {
+        return res.status(409).json({
+          error: "Conflict",
+          message: "This identity key is already bound to another API key",
+        });
+      }
+    }
+
+    const key = await updateApiKey(keyId, value);
+
+    if (!key) {
+      return res.status(404).json({
+        error: "API Key Not Found",
+        message: "No API key found with this key ID",
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      key: key,
+    });
+    return;
+  } catch (error) {
+    console.error("❌ Error updating API key:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to update API key",
+    });
+    return;
+  }
+});
+
+/**
+ * POST /api/v1/admin/api-keys/:keyId/rotate
+ * Issue a replacement key; the old one keeps working for the grace period
+ */
+router.post(
+  "/api-keys/:keyId/rotate",
+  strictRateLimitMiddleware,
+  async (req, res) => {
+    try {
+      const { keyId } = req.params;
+
+      if (!keyId) {
+        return res.status(400).json({
+          error: "Bad Request",
+          message: "Key ID parameter is required",
+        });
+      }
+
+      const { error, value } = rotateApiKeySchema.validate(req.body || {});
+      if (error) {
+        return res.status(400).json({
+          error: "Validation Error",
+          message: error.details[0]?.message || "Validation failed",
+        });
+      }
+
+      const existing = await getApiKey(keyId);
+
+      if (!existing) {
+        return res.status(404).json({
+          error: "API Key Not Found",
+          message: "No API key found with this key ID",
+        });
+      }
+
+      if (!existing.data.active || existing.data.replacedBy) {
+        return res.status(409).json({
+          error: "Conflict",
+          message: existing.data.active
+            ? "API key has already been rotated"
+            : "API key has been deactivated",
+        });
+      }
+
+      const rotated = await rotateApiKey(
+        keyId,
+        value.gracePeriodSeconds,
+        getActor(req as AuthenticatedRequest),
+        value.expiresAt,
+      );
+
+      if (!rotated) {
+        return res.status(404).json({
+          error: "API Key Not Found",
+          message: "No API key found with this key ID",
+        });
+      }
+
+      console.log(`🔑 API key ${keyId} rotated to ${rotated.key.keyId}`);
+      res.status(201).json({
+        success: true,
+        apiKey: rotated.apiKey,
+        ...(rotated.signingSecret && { signingSecret: rotated.signingSecret }),
+        key: rotated.key,
+        previous: rotated.previous,
+        message: "Store this API key now - it cannot be retrieved again",
+      });
+      return;
+    } catch (error) {
+      console.error("❌ Error rotating API key:", error);
+      res.status(500).json({
+        error: "Internal Server Error",
+        message: "Failed to rotate API key",
+      });
+      return;
+    }
+  },
+);
+
+/**
+ * POST /api/v1/admin/api-keys/:keyId/signing-secret
+ * Enable HMAC request signing for an API key, or replace its signing secret
+ */
+router.post(
+  "/api-keys/:keyId/signing-secret",
+  strictRateLimitMiddleware,
+  async (req, res) => {
+    try {
+      const { keyId } = req.params;
+
+      if (!keyId) {
+        return res.status(400).json({
+          error: "Bad Request",
+          message: "Key ID parameter is required",
+        });
+      }
+
+      const { error, value } = signingSecretSchema.validate(req.body || {});
+      if (error) {
+        return res.status(400).json({
+          error: "Validation Error",
+          message: error.details[0]?.message || "Validation failed",
+        });
+      }
+
+      if (!isRequestSigningConfigured()) {
+        return res.status(503).json({
+          error: "Service Unavailable",
+          message: "Request signing is not configured on this server",
+        });
+      }
+
+      const issued = await issueSigningSecret(keyId, value.requireSignedRequests);
+
+      if (!issued) {
+        return res.status(404).json({
+          error: "API Key Not Found",
+          message: "No API key found with this key ID",
+        });
+      }
+
+      console.log(
+        `🔏 Signing secret v${issued.key.signingSecretVersion} issued for API key ${keyId}`,
+      );
+      res.status(201).json({
+        success: true,
+        signingSecret: issued.signingSecret,
+        key: issued.key,
+        message: "Store this signing secret now - it cannot be retrieved again",
+      });
+      return;
+    } catch (error) {
+      console.error("❌ Error issuing signing secret:", error);
+      res.status(500).json({
+        error: "Internal Server Error",
+        message: "Failed to issue signing secret",
+      });
+      return;
+    }
+  },
+);
+
+/**
+ * DELETE /api/v1/admin/api-keys/:keyId
+ * Deactivate an API key immediately
+ */
+router.delete("/api-keys/:keyId", strictRateLimitMiddleware, async (req, res) => {
+  try {
+    const { keyId } = req.params;
+
+    if (!keyId) {
+      return res.status(400).json({
+        error: "Bad Request",
+        message: "Key ID parameter is required",
+      });
+    }
+
+    const key = await revokeApiKey(keyId);
+
+    if (!key) {
+      return res.status(404).json({
+        error: "API Key Not Found",
+        message: "No API key found with this key ID",
+      });
+    }
+
+    console.log(`🔑 API key ${keyId} revoked`);
+    res.status(200).json({
+      success: true,
+      key: key,
+      message: "API key deactivated",
+    });
+    return;
+  } catch (error) {
+    console.error("❌ Error revoking API key:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to revoke API key",
+    });
+    return;
+  }
+});
+
+/**
+ * GET /api/v1/admin/api-keys/:keyId/usage
+ * Requests made with an API key over the last few days
+ */
+router.get("/api-keys/:keyId/usage", async (req, res) => {
+  try {
+    const { keyId } = req.params;
+
+    if (!keyId) {
+      return res.status(400).json({
+        error: "Bad Request",
+        message: "Key ID parameter is required",
+      });
+    }
+
+    if (!(await getApiKey(keyId))) {
+      return res.status(404).json({
+        error: "API Key Not Found",
+        message: "No API key found with this key ID",
+      });
+    }
+
+    const days = parseInt(typeof req.query.days === "string" ? req.query.days : "", 10);
+    const windowDays = Number.isNaN(days) ? 7 : Math.min(Math.max(days, 1), 90);
+    const since = Date.now() - windowDays * 24 * 60 * 60 * 1000;
+
+    const usage = await getApiKeyUsage(keyId, since, 1000);
+
+    res.status(200).json(usage);
+    return;
+  } catch (error) {
+    console.error("❌ Error reading API key usage:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to read API key usage",
+    });
+    return;
+  }
+});
+
+export default router;
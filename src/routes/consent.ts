@@ -0,0 +1,265 @@
+import express from "express";
+import Joi from "joi";
+import { validateWalletIdentity } from "../middleware/identityAuth";
+import {
+  getConsentHistory,
+  listConsents,
+  setOriginConsent,
+  setPaused,
+  setQuietHours,
+} from "../services/consentService";
+import { TIME_OF_DAY_PATTERN, isValidTimezone } from "../services/quietHoursService";
+import { AuthenticatedRequest } from "../types";
+
+const router = express.Router();
+
+// Every consent route acts for the end user, authenticated by their wallet
+router.use(validateWalletIdentity);
+
+function parseLimit(value: unknown): number {
+  const limit = parseInt(typeof value === "string" ? value : "", 10);
+  return Number.isNaN(limit) ? 50 : Math.min(Math.max(limit, 1), 500);
+}
+
+// Validation schema for granting or revoking an origin
+const originConsentSchema = Joi.object({
+  granted: Joi.boolean().required(),
+});
+
+// Validation schema for pausing notifications
+const pauseSchema = Joi.object({
+  until: Joi.number().integer().positive().optional(),
+});
+
+// Validation schema for quiet hours and do-not-disturb
+const quietHoursSchema = Joi.object({
+  timezone: Joi.string().max(64).optional(),
+  quietHours: Joi.object({
+    start: Joi.string().pattern(TIME_OF_DAY_PATTERN).required(),
+    end: Joi.string().pattern(TIME_OF_DAY_PATTERN).required(),
+    mode: Joi.string().valid("defer", "silent").default("defer"),
+  })
+    .allow(null)
+    .optional(),
+  doNotDisturb: Joi.boolean().optional(),
+  // Apply to the subscription for this origin only, instead of all of them
+  origin: Joi.string().max(253).optional(),
+}).or("timezone", "quietHours", "doNotDisturb");
+
+/**
+ * GET /api/v1/consent
+ * List every origin that can notify the user, and whether notifications are paused
+ */
+router.get("/", async (req, res) => {
+  try {
+    const identityKey = (req as AuthenticatedRequest).identityKey || "";
+    const { origins, pause } = await listConsents(identityKey);
+
+    res.status(200).json({
+      identityKey: identityKey,
+      origins: origins,
+      pause: pause,
+    });
+    return;
+  } catch (error) {
+    console.error("❌ Error listing consents:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to list notification permissions",
+    });
+    return;
+  }
+});
+
+/**
+ * POST /api/v1/consent/origins/:origin
+ * Revoke or re-grant one origin's permission to notify the user
+ */
+router.post("/origins/:origin", async (req, res) => {
+  try {
+    const { origin } = req.params;
+    const identityKey = (req as AuthenticatedRequest).identityKey || "";
+
+    if (!origin) {
+      return res.status(400).json({
+        error: "Bad Request",
+        message: "Origin parameter is required",
+      });
+    }
+
+    const { error, value } = originConsentSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: "Validation Error",
+        message: error.details[0]?.message || "Validation failed",
+      });
+    }
+
+    const consent = await setOriginConsent(identityKey, origin, value.granted);
+
+    if (!consent) {
+      return res.status(404).json({
+        error: "Subscription Not Found",
+        message: "No subscription found for this origin",
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      consent: consent,
+    });
+    return;
+  } catch (error) {
+    console.error("❌ Error updating consent:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to update notification permission",
+    });
+    return;
+  }
+});
+
+/**
+ * POST /api/v1/consent/pause
+ * Pause all notifications to the user, until the given time or until resumed
+ */
+router.post("/pause", async (req, res) => {
+  try {
+    const identityKey = (req as AuthenticatedRequest).identityKey || "";
+
+    const { error, value } = pauseSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: "Validation Error",
+        message: error.details[0]?.message || "Validation failed",
+      });
+    }
+
+    if (value.until && value.until <= Date.now()) {
+      return res.status(400).json({
+        error: "Validation Error",
+        message: "\"until\" must be in the future",
+      });
+    }
+
+    const pause = await setPaused(identityKey, true, value.until);
+
+    res.status(200).json({
+      success: true,
+      pause: pause,
+    });
+    return;
+  } catch (error) {
+    console.error("❌ Error pausing notifications:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to pause notifications",
+    });
+    return;
+  }
+});
+
+/**
+ * DELETE /api/v1/consent/pause
+ * Resume notifications to the user
+ */
+router.delete("/pause", async (req, res) => {
+  try {
+    const identityKey = (req as AuthenticatedRequest).identityKey || "";
+    const pause = await setPaused(identityKey, false);
+
+    res.status(200).json({
+      success: true,
+      pause: pause,
+    });
+    return;
+  } catch (error) {
+    console.error("❌ Error resuming notifications:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to resume notifications",
+    });
+    return;
+  }
+});
+
+/**
+ * POST /api/v1/consent/quiet-hours
+ * Set the user's timezone, quiet hours or do-not-disturb, for every origin or one
+ */
+router.post("/quiet-hours", async (req, res) => {
+  try {
+    const identityKey = (req as AuthenticatedRequest).identityKey || "";
+
+    const { error, value } = quietHoursSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: "Validation Error",
+        message: error.details[0]?.message || "Validation failed",
+      });
+    }
+
+    const { origin, ...settings } = value;
+    if (settings.timezone && !isValidTimezone(settings.timezone)) {
+      return res.status(400).json({
+        error: "Validation Error",
+        message: "\"timezone\" must be an IANA timezone name",
+      });
+    }
+
+    const origins = await setQuietHours(identityKey, settings, origin);
+
+    if (!origins) {
+      return res.status(404).json({
+        error: "Subscription Not Found",
+        message: "No subscription found for this origin",
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      origins: origins,
+    });
+    return;
+  } catch (error) {
+    console.error("❌ Error updating quiet hours:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to update quiet hours",
+    });
+    return;
+  }
+});
+
+/**
+ * GET /api/v1/consent/history
+ * Grant, revoke and pause events for the user, newest first
+ */
+router.get("/history", async (req, res) => {
+  try {
+    const identityKey = (req as AuthenticatedRequest).identityKey || "";
+    const before =
+      typeof req.query.before === "string" ? parseInt(req.query.before, 10) : NaN;
+
+    const events = await getConsentHistory(
+      identityKey,
+      parseLimit(req.query.limit),
+      Number.isNaN(before) ? undefined : before,
+    );
+
+    res.status(200).json({
+      count: events.length,
+      events: events,
+    });
+    return;
+  } catch (error) {
+    console.error("❌ Error listing consent history:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to list consent history",
+    });
+    return;
+  }
+});
+
+export default router;
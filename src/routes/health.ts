@@ -1,5 +1,7 @@
 import express, { Request, Response } from "express";
-import { getFirestore, getMessaging } from "../config/firebase";
+import { getMessaging } from "../config/firebase";
+import { getStore } from "../repositories";
+import { getPushProviderMode } from "../push";
 
 const router = express.Router();
 
@@ -26,29 +28,27 @@ router.get("/ready", async (req, res) => {
   console.log("Readiness check request received");
   try {
     const checks = {
-      firebase: false,
-      firestore: false,
+      storage: false,
       messaging: false,
     };
 
-    // Check Firebase connection
+    // Check storage backend
     try {
-      const db = getFirestore();
-      await db.collection("_health").limit(1).get();
-      checks.firestore = true;
-      checks.firebase = true;
+      await getStore().ping();
+      checks.storage = true;
     } catch (error) {
       console.warn(
-        "Firestore health check failed:",
+        "Storage health check failed:",
         error instanceof Error ? error.message : String(error),
       );
     }
 
-    // Check Firebase Messaging
+    // Check Firebase Messaging (the mock provider needs no external service)
     try {
-      const messaging = getMessaging();
-      // Just check if messaging instance is available
-      if (messaging) {
+      if (getPushProviderMode() === "mock") {
+        checks.messaging = true;
+      } else if (getMessaging()) {
+        // Just check if messaging instance is available
         checks.messaging = true;
       }
     } catch (error) {
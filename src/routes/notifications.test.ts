@@ -0,0 +1,368 @@
+import express from "express";
+import request from "supertest";
+import { createFcmError, MockPushProvider, setPushProviders } from "../push";
+import { getRepositories, MemoryStore, setStore } from "../repositories";
+import { createApiKey } from "../services/apiKeyService";
+import notificationRoutes from "./notifications";
+import subscriptionRoutes from "./subscriptions";
+
+const app = express();
+app.use(express.json());
+app.use("/api/v1/notifications", notificationRoutes);
+app.use("/api/v1/subscriptions", subscriptionRoutes);
+
+let AUTH: Record<string, string>;
+const TOKEN = "fcm-token-1";
+
+async function register(
+  userId = "user-1",
+  fcmToken = TOKEN,
+  deviceId = `${userId}-phone`,
+): Promise<string> {
+  const response = await request(app)
+    .post("/api/v1/subscriptions/register")
+    .set(AUTH)
+    .send({ userId, fcmToken, deviceInfo: { platform: "android", deviceId } });
+  expect(response.status).toBe(200);
+  return response.body.userKey;
+}
+
+describe("notification routes", () => {
+  let provider: MockPushProvider;
+
+  beforeEach(async () => {
+    setStore(new MemoryStore());
+    provider = new MockPushProvider();
+    setPushProviders([provider]);
+
+    const { apiKey } = await createApiKey(
+      {
+        origin: "localhost:3000",
+        permissions: [
+          "notifications:send",
+          "notifications:batch",
+          "notifications:read",
+          "subscriptions:manage",
+        ],
+      },
+      "test",
+    );
+    AUTH = { Authorization: `Bearer ${apiKey}`, Origin: "localhost:3000" };
+  });
+
+  describe("POST /send", () => {
+    function send(userKey: string) {
+      return request(app)
+        .post("/api/v1/notifications/send")
+        .set(AUTH)
+        .send({ userKey, notification: { title: "Your turn", body: "Alice flipped heads" } });
+    }
+
+    it("pushes through the provider and logs the notification", async () => {
+      const userKey = await register();
+
+      const response = await send(userKey);
+
+      expect(response.status).toBe(200);
+      const { messageId } = response.body;
+      const [message] = provider.sentTo(TOKEN);
+      expect(message?.payload).toMatchObject({ title: "Your turn", body: "Alice flipped heads" });
+      expect(message?.payload.data).toMatchObject({ messageId, origin: "localhost:3000" });
+      expect(await getRepositories().notifications.get(messageId)).toMatchObject({
+        userKey,
+        origin: "localhost:3000",
+        title: "Your turn",
+        status: "sent",
+      });
+    });
+
+    it("fans out to every device of the user", async () => {
+      await register("user-1", TOKEN, "phone");
+      const userKey = await register("user-1", "fcm-token-2", "tablet");
+
+      const response = await send(userKey);
+
+      expect(response.status).toBe(200);
+      expect(response.body.deliveries).toEqual([
+        expect.objectContaining({ deviceId: "phone", success: true }),
+        expect.objectContaining({ deviceId: "tablet", success: true }),
+      ]);
+      expect(provider.sentTo(TOKEN)).toHaveLength(1);
+      expect(provider.sentTo("fcm-token-2")).toHaveLength(1);
+    });
+
+    it("succeeds when only some devices fail", async () => {
+      await register("user-1", TOKEN, "phone");
+      const userKey = await register("user-1", "fcm-token-2", "tablet");
+      provider.failFor(TOKEN, new Error("FCM is down"));
+
+      const response = await send(userKey);
+
+      expect(response.status).toBe(200);
+      expect(response.body.deliveries).toEqual([
+        expect.objectContaining({ deviceId: "phone", success: false }),
+        expect.objectContaining({ deviceId: "tablet", success: true }),
+      ]);
+    });
+
+    it("records acknowledgements sent back by the device", async () => {
+      const userKey = await register();
+      const { messageId } = (await send(userKey)).body;
+      const ackToken = provider.sentTo(TOKEN)[0]?.payload.data?.ackToken;
+      const ack = (event: string, token = ackToken) =>
+        request(app).post(`/api/v1/notifications/${messageId}/ack`).send({ event, ackToken: token });
+
+      expect((await ack("delivered")).body).toMatchObject({ status: "delivered" });
+      expect((await ack("clicked", "forged")).status).toBe(401);
+      expect((await ack("clicked")).body).toMatchObject({ status: "clicked" });
+
+      const status = await request(app)
+        .get(`/api/v1/notifications/status/${messageId}`)
+        .set(AUTH);
+      expect(status.body.status).toBe("clicked");
+      expect(status.body.history.map(({ status }: { status: string }) => status)).toEqual([
+        "queued",
+        "sent",
+        "delivered",
+        "clicked",
+      ]);
+    });
+
+    it("answers 404 for an unknown user", async () => {
+      const response = await send("nobody");
+
+      expect(response.status).toBe(404);
+      expect(provider.sent).toHaveLength(0);
+    });
+
+    it("answers 410 when the token is no longer registered", async () => {
+      const userKey = await register();
+      provider.failFor(TOKEN, createFcmError("messaging/registration-token-not-registered"));
+
+      const response = await send(userKey);
+
+      expect(response.status).toBe(410);
+    });
+
+    it("stops sending to a device whose token is no longer registered", async () => {
+      await register("user-1", TOKEN, "phone");
+      const userKey = await register("user-1", "fcm-token-2", "tablet");
+      provider.failFor(TOKEN, createFcmError("messaging/registration-token-not-registered"));
+
+      await send(userKey);
+      const response = await send(userKey);
+
+      expect(response.status).toBe(200);
+      expect(provider.sentTo("fcm-token-2")).toHaveLength(2);
+      const { subscriptions, events } = getRepositories();
+      const subscription = await subscriptions.get(userKey);
+      expect(subscription?.devices?.phone).toMatchObject({
+        active: false,
+        deactivationReason: "invalid_token",
+      });
+      expect(subscription?.active).toBe(true);
+      expect(
+        await events.find([{ field: "type", op: "==", value: "subscription_expired" }]),
+      ).toHaveLength(1);
+    });
+
+    it("answers 500 when the provider fails", async () => {
+      const userKey = await register();
+      provider.failFor(TOKEN, new Error("FCM is down"));
+
+      const response = await send(userKey);
+
+      expect(response.status).toBe(500);
+      expect(response.body).toMatchObject({
+        error: "Internal Server Error",
+        message: "Failed to send notification to any device",
+        deliveries: [expect.objectContaining({ success: false })],
+      });
+      expect(await getRepositories().notifications.get(response.body.messageId)).toMatchObject({
+        status: "failed",
+        error: { message: "FCM is down" },
+      });
+    });
+  });
+
+  describe("POST /batch", () => {
+    function sendBatch(userKeys: string[]) {
+      return request(app)
+        .post("/api/v1/notifications/batch")
+        .set(AUTH)
+        .send({ userKeys, notification: { title: "Tournament", body: "Round 2 starts now" } });
+    }
+
+    it("reports a result per recipient and logs the ones that were sent", async () => {
+      const alice = await register("alice", "fcm-token-alice");
+      const bob = await register("bob", "fcm-token-bob");
+      provider.failFor("fcm-token-bob", new Error("FCM is down"));
+
+      const response = await sendBatch([alice, bob, "nobody"]);
+
+      expect(response.status).toBe(200);
+      expect(response.body.summary).toEqual({ total: 3, sent: 1, failed: 2 });
+      const [sent, failed, missing] = response.body.results;
+      expect(sent).toMatchObject({ userKey: alice, success: true });
+      expect(failed).toMatchObject({ userKey: bob, success: false, error: "delivery_failed" });
+      expect(missing).toMatchObject({ userKey: "nobody", success: false, error: "not_found" });
+
+      expect(provider.sentTo("fcm-token-alice")).toHaveLength(1);
+      const { notifications } = getRepositories();
+      expect(await notifications.get(sent.messageId)).toMatchObject({
+        userKey: alice,
+        status: "sent",
+      });
+      expect(await notifications.get(failed.messageId)).toMatchObject({
+        userKey: bob,
+        status: "failed",
+      });
+    });
+
+    it("rejects repeated recipients", async () => {
+      const userKey = await register();
+
+      const response = await sendBatch([userKey, userKey]);
+
+      expect(response.status).toBe(400);
+      expect(provider.sent).toHaveLength(0);
+    });
+  });
+
+  describe("POST /topic", () => {
+    async function subscribe(userKey: string, topic: string) {
+      const response = await request(app)
+        .post(`/api/v1/subscriptions/${encodeURIComponent(userKey)}/topics`)
+        .set(AUTH)
+        .send({ topic });
+      expect(response.status).toBe(200);
+    }
+
+    function sendTopic(topic: string) {
+      return request(app)
+        .post("/api/v1/notifications/topic")
+        .set(AUTH)
+        .send({ topic, notification: { title: "Results", body: "Alice won the final" } });
+    }
+
+    it("sends to the topic's members only", async () => {
+      const alice = await register("alice", "fcm-token-alice");
+      const bob = await register("bob", "fcm-token-bob");
+      await register("carol", "fcm-token-carol");
+      await subscribe(alice, "game-results");
+      await subscribe(bob, "game-results");
+
+      const response = await sendTopic("game-results");
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({
+        topic: "game-results",
+        summary: { total: 2, sent: 2, failed: 0 },
+      });
+      expect(provider.sentTo("fcm-token-alice")).toHaveLength(1);
+      expect(provider.sentTo("fcm-token-bob")).toHaveLength(1);
+      expect(provider.sentTo("fcm-token-carol")).toHaveLength(0);
+      for (const { messageId } of response.body.results) {
+        expect(await getRepositories().notifications.get(messageId)).toMatchObject({
+          status: "sent",
+        });
+      }
+    });
+
+    it("stops sending after a member unsubscribes", async () => {
+      const userKey = await register();
+      await subscribe(userKey, "game-results");
+      await request(app)
+        .delete(`/api/v1/subscriptions/${encodeURIComponent(userKey)}/topics/game-results`)
+        .set(AUTH)
+        .expect(200);
+
+      const response = await sendTopic("game-results");
+
+      expect(response.status).toBe(200);
+      expect(response.body.summary).toEqual({ total: 0, sent: 0, failed: 0 });
+      expect(provider.sent).toHaveLength(0);
+    });
+  });
+
+  describe("scheduled notifications", () => {
+    it("schedules a delayed send and cancels it once", async () => {
+      const userKey = await register();
+
+      const scheduled = await request(app)
+        .post("/api/v1/notifications/send")
+        .set(AUTH)
+        .send({
+          userKey,
+          notification: { title: "Reminder", body: "Your game starts soon" },
+          options: { delaySeconds: 600 },
+        });
+
+      expect(scheduled.status).toBe(202);
+      expect(scheduled.body).toMatchObject({ scheduled: true });
+      expect(provider.sent).toHaveLength(0);
+      const { messageId } = scheduled.body;
+
+      const cancel = () =>
+        request(app).delete(`/api/v1/notifications/scheduled/${messageId}`).set(AUTH);
+      expect((await cancel()).status).toBe(200);
+      expect((await cancel()).status).toBe(409);
+      expect(await getRepositories().notifications.get(messageId)).toMatchObject({
+        status: "cancelled",
+      });
+    });
+  });
+
+  describe("POST /data", () => {
+    function sendData(userKey: string, data: Record<string, unknown>) {
+      return request(app).post("/api/v1/notifications/data").set(AUTH).send({ userKey, data });
+    }
+
+    it("pushes the data without anything to display", async () => {
+      const userKey = await register();
+
+      const response = await sendData(userKey, { gameId: "g1", move: "e4" });
+
+      expect(response.status).toBe(200);
+      const { messageId } = response.body;
+      const [message] = provider.sentTo(TOKEN);
+      expect(message?.payload).toMatchObject({ title: "", body: "", dataOnly: true });
+      expect(message?.payload.data).toMatchObject({ gameId: "g1", move: "e4", messageId });
+      expect(await getRepositories().notifications.get(messageId)).toMatchObject({
+        userKey,
+        dataOnly: true,
+        status: "sent",
+      });
+    });
+
+    it("rejects keys FCM reserves and values that are not strings", async () => {
+      const userKey = await register();
+
+      expect((await sendData(userKey, { collapse_key: "x" })).status).toBe(400);
+      expect((await sendData(userKey, { score: 3 })).status).toBe(400);
+      expect(provider.sent).toHaveLength(0);
+    });
+
+    it("is held back while the user has paused notifications", async () => {
+      const userKey = await register();
+      await getRepositories().subscriptions.update(userKey, { pausedAt: Date.now() });
+
+      const response = await sendData(userKey, { gameId: "g1" });
+
+      expect(response.status).toBe(403);
+      expect(provider.sent).toHaveLength(0);
+    });
+
+    it("answers 410 when every token is no longer registered", async () => {
+      const userKey = await register();
+      provider.failFor(TOKEN, createFcmError("messaging/registration-token-not-registered"));
+
+      const response = await sendData(userKey, { gameId: "g1" });
+
+      expect(response.status).toBe(410);
+      expect(await getRepositories().notifications.get(response.body.messageId)).toMatchObject({
+        status: "failed",
+      });
+    });
+  });
+});
@@ -1,36 +1,272 @@
 import express, { Request, Response } from "express";
 import Joi from "joi";
 import { v4 as uuidv4 } from "uuid";
-import { sendNotification, getFirestore } from "../config/firebase";
-import { validateApiKey } from "../middleware/auth";
-import { AuthenticatedRequest } from "../types";
-import * as admin from "firebase-admin";
+import { requirePermission, validateApiKey } from "../middleware/auth";
+import { idempotencyMiddleware } from "../middleware/idempotency";
+import {
+  AuthenticatedRequest,
+  BatchNotificationRequest,
+  BatchNotificationResponse,
+  NotificationAckRequest,
+  NotificationPayload,
+  NotificationResponse,
+  TemplateReference,
+  TopicNotificationRequest,
+  TopicNotificationResponse,
+} from "../types";
+import { getRepositories } from "../repositories";
+import { isInvalidTokenCode } from "../push";
+import { isSubscriptionPaused } from "../services/consentService";
+import { getQuietHoursDecision } from "../services/quietHoursService";
+import { consumeQuota, describeQuotaExceeded } from "../services/quotaService";
+import { getActiveDevices } from "../services/deviceService";
+import { ENCRYPTION_SCHEME, isWellFormedEnvelope } from "../services/encryptionService";
+import {
+  buildDataPayload,
+  buildPushPayload,
+  deliverToSubscription,
+} from "../services/deliveryService";
+import {
+  recordDeliveryOutcome,
+  recordNotification,
+  recordStatus,
+  verifyAckToken,
+} from "../services/notificationLogService";
+import {
+  RecipientNotification,
+  sendToRecipients,
+} from "../services/notificationService";
+import {
+  MAX_SCHEDULE_AHEAD_MS,
+  cancelScheduledNotification,
+  resolveSendAt,
+  scheduleNotification,
+} from "../services/schedulerService";
+import {
+  LOCALE_PATTERN,
+  MAX_BODY_LENGTH,
+  MAX_TITLE_LENGTH,
+  PLACEHOLDER_PATTERN,
+  TEMPLATE_NAME_PATTERN,
+  VARIABLE_NAME_PATTERN,
+  deleteTemplate,
+  getSubscriptionLocale,
+  getTemplate,
+  listTemplates,
+  renderTemplate,
+  saveTemplate,
+} from "../services/templateService";
+import {
+  TOPIC_NAME_PATTERN,
+  findTopicMembers,
+  qualifyTopic,
+} from "../services/topicService";
 
 const router = express.Router();
 
-// Validation schema for notification payload
-const notificationSchema = Joi.object({
+// Maximum recipients accepted by a single batch request
+const MAX_BATCH_RECIPIENTS = 500;
+
+// Largest data-only payload accepted, leaving room under FCM's 4KB limit for
+// the fields the server adds
+const MAX_DATA_BYTES = 3072;
+
+// Longest ciphertext accepted for one device, base64url encoded, also leaving
+// room under FCM's 4KB limit
+const MAX_CIPHERTEXT_LENGTH = 3072;
+
+// Data keys FCM reserves for itself
+const RESERVED_DATA_KEY = /^(from|notification|message_type|collapse_key|(google|gcm)\..*)$/;
+
+// Most action buttons Android shows on one notification
+const MAX_NOTIFICATION_ACTIONS = 3;
+
+// Web URLs and app deep links, but not schemes that run code or read local files
+const LINK_URI = Joi.string()
+  .uri()
+  .pattern(/^(?!(javascript|vbscript|data|file):)/i, "link");
+
+const notificationActionSchema = Joi.object({
+  id: Joi.string().pattern(/^[A-Za-z0-9_-]+$/).max(64).required(),
+  title: Joi.string().max(40).required(),
+  url: LINK_URI.optional(),
+});
+
+const notificationContentSchema = Joi.object({
+  title: Joi.string().required().max(MAX_TITLE_LENGTH),
+  body: Joi.string().required().max(MAX_BODY_LENGTH),
+  icon: Joi.string().uri().optional(),
+  badge: Joi.number().integer().min(0).optional(),
+  // APNs and FCM only download images over HTTPS
+  image: Joi.string().uri({ scheme: ["https"] }).optional(),
+  url: LINK_URI.optional(),
+  actions: Joi.array()
+    .items(notificationActionSchema)
+    .max(MAX_NOTIFICATION_ACTIONS)
+    .unique("id")
+    .optional(),
+  sound: Joi.string().pattern(/^[A-Za-z0-9_.-]+$/).max(64).optional(),
+  androidChannelId: Joi.string().max(64).optional(),
+  data: Joi.object().optional(),
+});
+
+const notificationOptionsSchema = Joi.object({
+  requireInteraction: Joi.boolean().optional(),
+  silent: Joi.boolean().optional(),
+  priority: Joi.string().valid("normal", "urgent").optional(),
+  // Limited by APNs, which accepts collapse IDs of up to 64 bytes
+  tag: Joi.string().max(64, "utf8").optional(),
+  timestamp: Joi.number().optional(),
+  delaySeconds: Joi.number()
+    .integer()
+    .min(1)
+    .max(MAX_SCHEDULE_AHEAD_MS / 1000)
+    .optional(),
+});
+
+// Validation schema for data-only pushes; FCM only carries string values
+const dataMessageSchema = Joi.object({
   userKey: Joi.string().required(),
-  notification: Joi.object({
-    title: Joi.string().required().max(100),
-    body: Joi.string().required().max(200),
-    icon: Joi.string().uri().optional(),
-    badge: Joi.number().integer().min(0).optional(),
-    data: Joi.object().optional(),
-  }).required(),
+  data: Joi.object()
+    .pattern(
+      Joi.string().max(64).pattern(RESERVED_DATA_KEY, { invert: true }),
+      Joi.string().allow(""),
+    )
+    .min(1)
+    .required(),
   options: Joi.object({
-    requireInteraction: Joi.boolean().optional(),
-    silent: Joi.boolean().optional(),
-    tag: Joi.string().optional(),
-    timestamp: Joi.number().optional(),
+    tag: Joi.string().max(64, "utf8").optional(),
   }).optional(),
 });
 
+// Content the site encrypted to each device's keys, by deviceId, so the
+// server only relays ciphertext
+const encryptedContentSchema = Joi.object()
+  .pattern(
+    Joi.string().max(128),
+    Joi.string().base64({ urlSafe: true, paddingRequired: false }).max(MAX_CIPHERTEXT_LENGTH),
+  )
+  .min(1);
+
+// A stored template and the values for its placeholders
+const templateReferenceSchema = Joi.object({
+  name: Joi.string().pattern(TEMPLATE_NAME_PATTERN).required(),
+  variables: Joi.object()
+    .pattern(VARIABLE_NAME_PATTERN, [Joi.string().max(MAX_BODY_LENGTH), Joi.number()])
+    .optional(),
+});
+
+// Validation schema for notification payload
+const notificationSchema = Joi.object({
+  userKey: Joi.string().required(),
+  notification: notificationContentSchema,
+  template: templateReferenceSchema,
+  encrypted: encryptedContentSchema,
+  // Encrypted content is sealed to the messageId, so the site chooses it
+  messageId: Joi.string()
+    .guid({ version: "uuidv4" })
+    .when("encrypted", { is: Joi.exist(), then: Joi.required(), otherwise: Joi.forbidden() }),
+  options: notificationOptionsSchema.optional(),
+}).xor("notification", "template", "encrypted");
+
+// Validation schema for batch notification payload
+const batchNotificationSchema = Joi.object({
+  userKeys: Joi.array()
+    .items(Joi.string())
+    .min(1)
+    .max(MAX_BATCH_RECIPIENTS)
+    .unique()
+    .required(),
+  notification: notificationContentSchema,
+  template: templateReferenceSchema,
+  options: notificationOptionsSchema.optional(),
+}).xor("notification", "template");
+
+// Validation schema for topic notification payload
+const topicNotificationSchema = Joi.object({
+  topic: Joi.string().pattern(TOPIC_NAME_PATTERN).required(),
+  notification: notificationContentSchema,
+  template: templateReferenceSchema,
+  options: notificationOptionsSchema.optional(),
+}).xor("notification", "template");
+
+// URLs in templates may contain placeholders, which are filled in when sent
+const TEMPLATE_LINK_URI = Joi.string()
+  .max(2048)
+  .custom((value: string, helpers) =>
+    LINK_URI.validate(value.replace(PLACEHOLDER_PATTERN, "x")).error
+      ? helpers.error("string.uri")
+      : value,
+  );
+
+// Validation schema for creating or replacing a template
+const templateSchema = Joi.object({
+  description: Joi.string().max(200).optional(),
+  defaultLocale: Joi.string().pattern(LOCALE_PATTERN).required(),
+  // Placeholders can make the text shorter or longer; the rendered title
+  // and body are checked against the usual limits when sent
+  locales: Joi.object()
+    .pattern(
+      LOCALE_PATTERN,
+      Joi.object({
+        title: Joi.string().max(MAX_TITLE_LENGTH * 5).required(),
+        body: Joi.string().max(MAX_BODY_LENGTH * 5).required(),
+      }),
+    )
+    .min(1)
+    .required(),
+  content: notificationContentSchema
+    .fork(["title", "body"], (schema) => schema.forbidden())
+    .keys({
+      url: TEMPLATE_LINK_URI.optional(),
+      actions: Joi.array()
+        .items(notificationActionSchema.keys({ url: TEMPLATE_LINK_URI.optional() }))
+        .max(MAX_NOTIFICATION_ACTIONS)
+        .unique("id")
+        .optional(),
+    })
+    .optional(),
+});
+
+// Validation schema for device acknowledgements
+const ackSchema = Joi.object({
+  event: Joi.string().valid("delivered", "clicked", "dismissed").required(),
+  ackToken: Joi.string().required(),
+  deviceId: Joi.string().max(128).optional(),
+  action: Joi.string().max(64).when("event", {
+    is: "clicked",
+    otherwise: Joi.forbidden(),
+  }),
+  timestamp: Joi.number().integer().min(0).optional(),
+});
+
+/**
+ * The notification a send request asks for: its own, or one rendered from the
+ * origin's template for each recipient. Returns null if there is no such template.
+ */
+async function resolveNotification(
+  origin: string,
+  notification: NotificationPayload | undefined,
+  template: TemplateReference | undefined,
+): Promise<RecipientNotification | null> {
+  if (!template) {
+    return notification as NotificationPayload;
+  }
+
+  const stored = await getTemplate(origin, template.name);
+  if (!stored) {
+    return null;
+  }
+  return (subscription) =>
+    renderTemplate(stored, template.variables, getSubscriptionLocale(subscription));
+}
+
 /**
  * POST /api/v1/notifications/send
- * Send a push notification to a user
+ * Send a push notification to a user; repeats with the same Idempotency-Key
+ * header get the original response
  */
-router.post("/send", validateApiKey, async (req, res) => {
+router.post("/send", validateApiKey, requirePermission("notifications:send"), idempotencyMiddleware, async (req, res) => {
   try {
     // Validate request body
     const { error, value } = notificationSchema.validate(req.body);
@@ -41,8 +277,9 @@ router.post("/send", validateApiKey, async (req, res) => {
       });
     }
 
-    const { userKey, notification, options } = value;
-    const origin = req.get('Origin') || req.headers['origin'] || req.headers['host'];
+    const { userKey, template, options } = value;
+    const origin = (req as AuthenticatedRequest).origin;
+    const keyId = (req as AuthenticatedRequest).apiKeyInfo?.keyId;
 
     // Ensure origin is defined (should be set by middleware)
     if (!origin) {
@@ -56,31 +293,309 @@ router.post("/send", validateApiKey, async (req, res) => {
       `📤 Notification request from ${origin} for userKey: ${userKey.substring(0, 8)}...`,
     );
 
+    // Encrypted notifications have nothing readable for the server to store
+    const content = value.encrypted
+      ? { title: "", body: "", encrypted: value.encrypted }
+      : await resolveNotification(origin, value.notification, template);
+    if (!content) {
+      return res.status(404).json({
+        error: "Template Not Found",
+        message: `No template named "${template.name}" for this origin`,
+      });
+    }
+
     // Get user subscription from database
-    const db = getFirestore();
-    const userDoc = await db.collection("subscriptions").doc(userKey).get();
+    const { subscriptions } = getRepositories();
+    const userData = await subscriptions.get(userKey);
 
-    if (!userDoc.exists) {
+    if (!userData) {
       return res.status(404).json({
         error: "User Not Found",
         message: "No subscription found for this user key",
       });
     }
 
-    const userData = userDoc.data();
+    // Verify origin has permission
+    if (
+      !userData.permissions?.[origin || '']?.granted
+    ) {
+      return res.status(403).json({
+        error: "Permission Denied",
+        message:
+          "Origin does not have permission to send notifications to this user",
+      });
+    }
 
-    // Check if userData exists
-    if (!userData) {
-      return res.status(500).json({
-        error: "Data Error",
-        message: "User subscription data is corrupted or missing",
+    // Check the user has at least one device to deliver to
+    if (getActiveDevices(userData).length === 0) {
+      return res.status(400).json({
+        error: "No Active Devices",
+        message: "User has no active devices registered for notifications",
       });
     }
 
-    // Verify origin has permission
     if (
-      !userData.permissions?.[origin || '']
+      value.encrypted &&
+      !getActiveDevices(userData).some((device) => value.encrypted[device.deviceId])
     ) {
+      return res.status(400).json({
+        error: "No Encrypted Devices",
+        message: "None of the user's active devices has encrypted content in this request",
+      });
+    }
+
+    if (value.encrypted) {
+      if (!Object.values<string>(value.encrypted).every(isWellFormedEnvelope)) {
+        return res.status(400).json({
+          error: "Validation Error",
+          message: `"encrypted" must contain ${ENCRYPTION_SCHEME} envelopes`,
+        });
+      }
+
+      const { notifications, scheduledNotifications } = getRepositories();
+      if (
+        (await notifications.get(value.messageId)) ||
+        (await scheduledNotifications.get(value.messageId))
+      ) {
+        return res.status(409).json({
+          error: "Conflict",
+          message: "messageId has already been used",
+        });
+      }
+    }
+
+    // Encrypted sends use the messageId the content was sealed to
+    const messageId: string = value.messageId || uuidv4();
+
+    // Templates are rendered in the user's language
+    const rendered =
+      typeof content === "function" ? content(userData) : { notification: content };
+    if ("error" in rendered) {
+      return res.status(400).json({
+        error: "Template Error",
+        message: rendered.error,
+      });
+    }
+    const { notification } = rendered;
+
+    // Defer to the scheduler when a future send time was requested
+    const sendAt = resolveSendAt(options);
+    if (sendAt !== null) {
+      if (sendAt - Date.now() > MAX_SCHEDULE_AHEAD_MS) {
+        return res.status(400).json({
+          error: "Validation Error",
+          message: "Notifications can be scheduled at most 30 days ahead",
+        });
+      }
+
+      const scheduled = await scheduleNotification({
+        messageId: messageId,
+        userKey: userKey,
+        origin: origin,
+        notification: notification,
+        sendAt: sendAt,
+        ...(keyId && { keyId }),
+        ...(options?.priority && { priority: options.priority }),
+        ...(options?.silent && { silent: true }),
+        ...(options?.tag && { tag: options.tag }),
+      });
+
+      console.log(
+        `⏰ Notification scheduled for ${new Date(sendAt).toISOString()} - MessageID: ${scheduled.messageId}`,
+      );
+
+      const response: NotificationResponse = {
+        success: true,
+        messageId: scheduled.messageId,
+        timestamp: Date.now(),
+        scheduled: true,
+        sendAt: sendAt,
+      };
+      return res.status(202).json(response);
+    }
+
+    // Respect the user's pause from the mobile app; scheduled sends are
+    // checked when they go out
+    if (isSubscriptionPaused(userData)) {
+      return res.status(403).json({
+        error: "Notifications Paused",
+        message: "User has paused notifications",
+      });
+    }
+
+    // Hold non-urgent notifications until the user's quiet hours end
+    const decision = getQuietHoursDecision(userData, options?.priority);
+    if (decision.action === "defer") {
+      const deferred = await scheduleNotification({
+        messageId: messageId,
+        userKey: userKey,
+        origin: origin,
+        notification: notification,
+        sendAt: decision.until,
+        ...(keyId && { keyId }),
+        ...(options?.silent && { silent: true }),
+        ...(options?.tag && { tag: options.tag }),
+      });
+
+      console.log(
+        `🌙 Notification deferred until ${new Date(decision.until).toISOString()} for quiet hours - MessageID: ${deferred.messageId}`,
+      );
+
+      const response: NotificationResponse = {
+        success: true,
+        messageId: deferred.messageId,
+        timestamp: Date.now(),
+        scheduled: true,
+        deferred: true,
+        sendAt: decision.until,
+      };
+      return res.status(202).json(response);
+    }
+    const silent = decision.silent || !!options?.silent;
+
+    // Stop one site from flooding a user; scheduled sends count when they go out
+    const quota = await consumeQuota(
+      origin,
+      userKey,
+      (req as AuthenticatedRequest).apiKeyInfo?.quotas,
+    );
+    if (quota) {
+      const retryAfter = Math.max(Math.ceil((quota.resetAt - Date.now()) / 1000), 1);
+      console.warn(
+        `🚦 ${origin} hit its ${quota.scope} ${quota.window} quota for ${userKey.substring(0, 8)}...`,
+      );
+      res.set("Retry-After", String(retryAfter));
+      return res.status(429).json({
+        error: "Too Many Requests",
+        message: describeQuotaExceeded(quota),
+        quota: quota,
+        retryAfter: retryAfter,
+      });
+    }
+
+    // Log notification for analytics and status tracking before sending,
+    // so an ack that arrives before the send returns finds it
+    await recordNotification(
+      {
+        messageId: messageId,
+        userKey: userKey,
+        origin: origin,
+        title: notification.title,
+        body: notification.body,
+        ...(notification.encrypted && { encrypted: true }),
+        timestamp: Date.now(),
+      },
+      "queued",
+    );
+
+    // Send notification
+    const payload = buildPushPayload(notification, origin, messageId, {
+      silent,
+      ...(options?.tag && { tag: options.tag }),
+    });
+
+    const deliveries = await deliverToSubscription({
+      messageId,
+      userKey,
+      origin,
+      subscription: userData,
+      payload,
+      encrypted: notification.encrypted,
+    });
+    const delivered = deliveries.filter((delivery) => delivery.success).length;
+    const queued =
+      delivered === 0 && deliveries.some((delivery) => delivery.retrying);
+    await recordDeliveryOutcome(messageId, deliveries);
+
+    if (delivered === 0 && !queued) {
+      const allTokensInvalid = deliveries.every((delivery) =>
+        isInvalidTokenCode(delivery.error?.code || ""),
+      );
+      return res.status(allTokensInvalid ? 410 : 500).json({
+        error: allTokensInvalid ? "Invalid Token" : "Internal Server Error",
+        message: allTokensInvalid
+          ? "Push tokens for all of this user's devices are no longer valid"
+          : "Failed to send notification to any device",
+        messageId: messageId,
+        deliveries: deliveries,
+      });
+    }
+
+    if (queued) {
+      console.log(
+        `⏳ Notification queued for retry on ${deliveries.length} devices - MessageID: ${messageId}`,
+      );
+    } else {
+      console.log(
+        `✅ Notification sent to ${delivered}/${deliveries.length} devices - MessageID: ${messageId}`,
+      );
+    }
+
+    const response: NotificationResponse = {
+      success: true,
+      messageId: messageId,
+      timestamp: Date.now(),
+      deliveries: deliveries,
+      ...(queued && { queued: true }),
+      ...(silent && { silent: true }),
+    };
+    res.status(queued ? 202 : 200).json(response);
+    return;
+  } catch (error) {
+    console.error("❌ Error sending notification:", error);
+
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to send notification",
+    });
+    return;
+  }
+});
+
+/**
+ * POST /api/v1/notifications/data
+ * Send a data-only push that wakes the user's app to sync in the background
+ * without showing anything
+ */
+router.post("/data", validateApiKey, requirePermission("notifications:send"), idempotencyMiddleware, async (req, res) => {
+  try {
+    const { error, value } = dataMessageSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: "Validation Error",
+        message: error.details[0]?.message || "Validation failed",
+      });
+    }
+
+    const { userKey, data, options } = value;
+    const origin = (req as AuthenticatedRequest).origin;
+
+    if (!origin) {
+      return res.status(500).json({
+        error: "Server Error",
+        message: "Request origin not properly set by middleware",
+      });
+    }
+
+    if (Buffer.byteLength(JSON.stringify(data)) > MAX_DATA_BYTES) {
+      return res.status(400).json({
+        error: "Validation Error",
+        message: `"data" must be at most ${MAX_DATA_BYTES} bytes as JSON`,
+      });
+    }
+
+    const userData = await getRepositories().subscriptions.get(userKey);
+
+    if (!userData) {
+      return res.status(404).json({
+        error: "User Not Found",
+        message: "No subscription found for this user key",
+      });
+    }
+
+    // Quiet hours do not apply since nothing is shown, but a revoked
+    // permission and the user's pause do
+    if (!userData.permissions?.[origin]?.granted) {
       return res.status(403).json({
         error: "Permission Denied",
         message:
@@ -88,79 +603,452 @@ router.post("/send", validateApiKey, async (req, res) => {
       });
     }
 
-    // Check if FCM token exists
-    if (!userData.fcmToken) {
+    if (isSubscriptionPaused(userData)) {
+      return res.status(403).json({
+        error: "Notifications Paused",
+        message: "User has paused notifications",
+      });
+    }
+
+    if (getActiveDevices(userData).length === 0) {
       return res.status(400).json({
-        error: "No FCM Token",
-        message: "User has no valid FCM token for notifications",
+        error: "No Active Devices",
+        message: "User has no active devices registered for notifications",
+      });
+    }
+
+    const quota = await consumeQuota(
+      origin,
+      userKey,
+      (req as AuthenticatedRequest).apiKeyInfo?.quotas,
+      "data",
+    );
+    if (quota) {
+      const retryAfter = Math.max(Math.ceil((quota.resetAt - Date.now()) / 1000), 1);
+      console.warn(
+        `🚦 ${origin} hit its data ${quota.scope} ${quota.window} quota for ${userKey.substring(0, 8)}...`,
+      );
+      res.set("Retry-After", String(retryAfter));
+      return res.status(429).json({
+        error: "Too Many Requests",
+        message: describeQuotaExceeded(quota),
+        quota: quota,
+        retryAfter: retryAfter,
       });
     }
 
-    // Send notification
     const messageId = uuidv4();
-    const payload = {
-      title: notification.title,
-      body: notification.body,
-      icon: notification.icon,
-      badge: notification.badge,
-      data: {
-        ...notification.data,
+    await recordNotification(
+      {
+        messageId: messageId,
+        userKey: userKey,
         origin: origin,
+        title: "",
+        body: "",
+        dataOnly: true,
+        timestamp: Date.now(),
+      },
+      "queued",
+    );
+
+    const deliveries = await deliverToSubscription({
+      messageId,
+      userKey,
+      origin,
+      subscription: userData,
+      payload: buildDataPayload(data, origin, messageId, {
+        ...(options?.tag && { tag: options.tag }),
+      }),
+    });
+    const delivered = deliveries.filter((delivery) => delivery.success).length;
+    const queued =
+      delivered === 0 && deliveries.some((delivery) => delivery.retrying);
+    await recordDeliveryOutcome(messageId, deliveries);
+
+    if (delivered === 0 && !queued) {
+      const allTokensInvalid = deliveries.every((delivery) =>
+        isInvalidTokenCode(delivery.error?.code || ""),
+      );
+      return res.status(allTokensInvalid ? 410 : 500).json({
+        error: allTokensInvalid ? "Invalid Token" : "Internal Server Error",
+        message: allTokensInvalid
+          ? "Push tokens for all of this user's devices are no longer valid"
+          : "Failed to send data message to any device",
         messageId: messageId,
-        timestamp: Date.now().toString(),
+        deliveries: deliveries,
+      });
+    }
+
+    console.log(
+      `📦 Data message ${queued ? "queued" : "sent"} to ${deliveries.length} devices - MessageID: ${messageId}`,
+    );
+
+    const response: NotificationResponse = {
+      success: true,
+      messageId: messageId,
+      timestamp: Date.now(),
+      deliveries: deliveries,
+      ...(queued && { queued: true }),
+    };
+    res.status(queued ? 202 : 200).json(response);
+    return;
+  } catch (error) {
+    console.error("❌ Error sending data message:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to send data message",
+    });
+    return;
+  }
+});
+
+/**
+ * POST /api/v1/notifications/batch
+ * Send one notification to many users, batching delivery through FCM sendEach
+ */
+router.post("/batch", validateApiKey, requirePermission("notifications:batch"), async (req, res) => {
+  try {
+    const { error, value } = batchNotificationSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: "Validation Error",
+        message: error.details[0]?.message || "Validation failed",
+      });
+    }
+
+    const { userKeys, notification, template, options } =
+      value as BatchNotificationRequest;
+    const origin = (req as AuthenticatedRequest).origin;
+
+    if (!origin) {
+      return res.status(500).json({
+        error: "Server Error",
+        message: "Request origin not properly set by middleware",
+      });
+    }
+
+    const content = await resolveNotification(origin, notification, template);
+    if (!content) {
+      return res.status(404).json({
+        error: "Template Not Found",
+        message: `No template named "${template?.name}" for this origin`,
+      });
+    }
+
+    console.log(
+      `📤 Batch notification request from ${origin} for ${userKeys.length} recipients`,
+    );
+
+    const { subscriptions } = getRepositories();
+    const userDocs = await Promise.all(
+      userKeys.map((userKey) => subscriptions.get(userKey)),
+    );
+
+    const results = await sendToRecipients(
+      origin,
+      content,
+      userKeys.map((userKey, index) => ({
+        userKey,
+        subscription: userDocs[index] || null,
+      })),
+      {
+        quotas: (req as AuthenticatedRequest).apiKeyInfo?.quotas,
+        priority: options?.priority,
+        silent: options?.silent,
+        tag: options?.tag,
+        keyId: (req as AuthenticatedRequest).apiKeyInfo?.keyId,
+      },
+    );
+
+    const sent = results.filter((result) => result.success).length;
+    console.log(
+      `✅ Batch notification sent to ${sent}/${results.length} recipients`,
+    );
+
+    const response: BatchNotificationResponse = {
+      success: true,
+      batchId: uuidv4(),
+      timestamp: Date.now(),
+      summary: {
+        total: results.length,
+        sent: sent,
+        failed: results.length - sent,
+      },
+      results: results,
+    };
+    res.status(200).json(response);
+    return;
+  } catch (error) {
+    console.error("❌ Error sending batch notification:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to send batch notification",
+    });
+    return;
+  }
+});
+
+/**
+ * POST /api/v1/notifications/topic
+ * Send a notification to every user subscribed to one of the origin's topics
+ */
+router.post("/topic", validateApiKey, requirePermission("notifications:batch"), async (req, res) => {
+  try {
+    const { error, value } = topicNotificationSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: "Validation Error",
+        message: error.details[0]?.message || "Validation failed",
+      });
+    }
+
+    const { topic, notification, template, options } =
+      value as TopicNotificationRequest;
+    const origin = (req as AuthenticatedRequest).origin;
+
+    if (!origin) {
+      return res.status(500).json({
+        error: "Server Error",
+        message: "Request origin not properly set by middleware",
+      });
+    }
+
+    const content = await resolveNotification(origin, notification, template);
+    if (!content) {
+      return res.status(404).json({
+        error: "Template Not Found",
+        message: `No template named "${template?.name}" for this origin`,
+      });
+    }
+
+    const members = await findTopicMembers(origin, topic);
+    console.log(
+      `📤 Topic notification from ${origin} to ${qualifyTopic(origin, topic)} (${members.length} members)`,
+    );
+
+    const results = await sendToRecipients(
+      origin,
+      content,
+      members,
+      {
+        quotas: (req as AuthenticatedRequest).apiKeyInfo?.quotas,
+        priority: options?.priority,
+        silent: options?.silent,
+        tag: options?.tag,
+        keyId: (req as AuthenticatedRequest).apiKeyInfo?.keyId,
+      },
+    );
+    const sent = results.filter((result) => result.success).length;
+    console.log(
+      `✅ Topic notification sent to ${sent}/${results.length} members`,
+    );
+
+    const response: TopicNotificationResponse = {
+      success: true,
+      batchId: uuidv4(),
+      topic: topic,
+      timestamp: Date.now(),
+      summary: {
+        total: results.length,
+        sent: sent,
+        failed: results.length - sent,
       },
+      results: results,
     };
+    res.status(200).json(response);
+    return;
+  } catch (error) {
+    console.error("❌ Error sending topic notification:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to send topic notification",
+    });
+    return;
+  }
+});
+
+/**
+ * PUT /api/v1/notifications/templates/:name
+ * Create or replace one of the caller's templates
+ */
+router.put("/templates/:name", validateApiKey, requirePermission("notifications:send"), async (req, res) => {
+  try {
+    const { name } = req.params;
+    const origin = (req as AuthenticatedRequest).origin || '';
+
+    if (!name || !TEMPLATE_NAME_PATTERN.test(name)) {
+      return res.status(400).json({
+        error: "Invalid Request",
+        message: "Template names are 1-64 letters, digits or _.~- characters",
+      });
+    }
 
-    await sendNotification(userData.fcmToken, payload);
+    const { error, value } = templateSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: "Validation Error",
+        message: error.details[0]?.message || "Validation failed",
+      });
+    }
+
+    if (!(value.defaultLocale in value.locales)) {
+      return res.status(400).json({
+        error: "Validation Error",
+        message: "\"defaultLocale\" must be one of the template's locales",
+      });
+    }
 
-    // Log notification for analytics
-    await db.collection("notifications").doc(messageId).set({
-      userKey: userKey,
+    const { template, created } = await saveTemplate({
       origin: origin,
-      title: notification.title,
-      body: notification.body,
-      timestamp: admin.firestore.FieldValue.serverTimestamp(),
-      status: "sent",
+      name: name,
+      ...value,
+    });
+
+    console.log(`📝 Template ${name} ${created ? "created" : "updated"} for ${origin}`);
+    res.status(created ? 201 : 200).json({
+      success: true,
+      template: template,
     });
+    return;
+  } catch (error) {
+    console.error("❌ Error saving template:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to save template",
+    });
+    return;
+  }
+});
 
-    console.log(`✅ Notification sent successfully - MessageID: ${messageId}`);
+/**
+ * GET /api/v1/notifications/templates
+ * List the caller's templates
+ */
+router.get("/templates", validateApiKey, requirePermission("notifications:read"), async (req, res) => {
+  try {
+    const origin = (req as AuthenticatedRequest).origin || '';
+    const templates = await listTemplates(origin);
 
     res.status(200).json({
-      success: true,
-      messageId: messageId,
-      timestamp: Date.now(),
+      origin: origin,
+      templates: templates,
     });
     return;
   } catch (error) {
-    console.error("❌ Error sending notification:", error);
+    console.error("❌ Error listing templates:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to list templates",
+    });
+    return;
+  }
+});
 
-    if (
-      (error as any).code === "messaging/invalid-registration-token" ||
-      (error as any).code === "messaging/registration-token-not-registered"
-    ) {
-      return res.status(410).json({
-        error: "Invalid Token",
-        message: "FCM token is no longer valid",
+/**
+ * GET /api/v1/notifications/templates/:name
+ * Get one of the caller's templates
+ */
+router.get("/templates/:name", validateApiKey, requirePermission("notifications:read"), async (req, res) => {
+  try {
+    const { name } = req.params;
+    const origin = (req as AuthenticatedRequest).origin || '';
+
+    const template = name ? await getTemplate(origin, name) : null;
+    if (!template) {
+      return res.status(404).json({
+        error: "Template Not Found",
+        message: "No template found with this name",
       });
     }
 
+    res.status(200).json(template);
+    return;
+  } catch (error) {
+    console.error("❌ Error getting template:", error);
     res.status(500).json({
       error: "Internal Server Error",
-      message: "Failed to send notification",
+      message: "Failed to get template",
     });
     return;
   }
 });
 
 /**
- * GET /api/v1/notifications/status/:messageId
- * Check the status of a sent notification
+ * DELETE /api/v1/notifications/templates/:name
+ * Delete one of the caller's templates
  */
-router.get("/status/:messageId", validateApiKey, async (req, res) => {
+router.delete("/templates/:name", validateApiKey, requirePermission("notifications:send"), async (req, res) => {
+  try {
+    const { name } = req.params;
+    const origin = (req as AuthenticatedRequest).origin || '';
+
+    if (!name || !(await deleteTemplate(origin, name))) {
+      return res.status(404).json({
+        error: "Template Not Found",
+        message: "No template found with this name",
+      });
+    }
+
+    console.log(`🗑️ Template ${name} deleted for ${origin}`);
+    res.status(200).json({
+      success: true,
+      name: name,
+      message: "Template deleted",
+    });
+    return;
+  } catch (error) {
+    console.error("❌ Error deleting template:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to delete template",
+    });
+    return;
+  }
+});
+
+/**
+ * GET /api/v1/notifications/scheduled
+ * List the caller's scheduled notifications (pending by default)
+ */
+router.get("/scheduled", validateApiKey, requirePermission("notifications:read"), async (req, res) => {
+  try {
+    const origin = (req as AuthenticatedRequest).origin || '';
+    const status =
+      typeof req.query.status === "string" ? req.query.status : "pending";
+
+    const scheduled = await getRepositories().scheduledNotifications.find(
+      [
+        { field: "origin", op: "==", value: origin },
+        { field: "status", op: "==", value: status },
+      ],
+      { orderBy: { field: "sendAt" } },
+    );
+
+    res.status(200).json({
+      origin: origin,
+      status: status,
+      scheduled: scheduled.map(({ data }) => data),
+    });
+    return;
+  } catch (error) {
+    console.error("❌ Error listing scheduled notifications:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to list scheduled notifications",
+    });
+    return;
+  }
+});
+
+/**
+ * DELETE /api/v1/notifications/scheduled/:messageId
+ * Cancel a pending scheduled notification
+ */
+router.delete("/scheduled/:messageId", validateApiKey, requirePermission("notifications:send"), async (req, res) => {
   try {
     const { messageId } = req.params;
+    const origin = (req as AuthenticatedRequest).origin || '';
 
-    // Validate messageId parameter
     if (!messageId) {
       return res.status(400).json({
         error: "Invalid Request",
@@ -168,26 +1056,66 @@ router.get("/status/:messageId", validateApiKey, async (req, res) => {
       });
     }
 
-    const db = getFirestore();
-    const notificationDoc = await db
-      .collection("notifications")
-      .doc(messageId)
-      .get();
+    const scheduled = await getRepositories().scheduledNotifications.get(
+      messageId,
+    );
 
-    if (!notificationDoc.exists) {
+    if (!scheduled || scheduled.origin !== origin) {
       return res.status(404).json({
         error: "Notification Not Found",
-        message: "No notification found with this message ID",
+        message: "No scheduled notification found with this message ID",
       });
     }
 
-    const notificationData = notificationDoc.data();
+    if (!(await cancelScheduledNotification(messageId))) {
+      return res.status(409).json({
+        error: "Conflict",
+        message: `Scheduled notification is already ${scheduled.status === "pending" ? "being sent" : scheduled.status}`,
+      });
+    }
 
-    // Check if notificationData exists
-    if (!notificationData) {
-      return res.status(500).json({
-        error: "Data Error",
-        message: "Notification data is corrupted or missing",
+    console.log(`🗑️ Scheduled notification cancelled - MessageID: ${messageId}`);
+    res.status(200).json({
+      success: true,
+      messageId: messageId,
+      message: "Scheduled notification cancelled",
+    });
+    return;
+  } catch (error) {
+    console.error("❌ Error cancelling scheduled notification:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to cancel scheduled notification",
+    });
+    return;
+  }
+});
+
+/**
+ * GET /api/v1/notifications/status/:messageId
+ * Check the status and delivery history of a notification
+ */
+router.get("/status/:messageId", validateApiKey, requirePermission("notifications:read"), async (req, res) => {
+  try {
+    const { messageId } = req.params;
+    const origin = (req as AuthenticatedRequest).origin || '';
+
+    // Validate messageId parameter
+    if (!messageId) {
+      return res.status(400).json({
+        error: "Invalid Request",
+        message: "Message ID parameter is required",
+      });
+    }
+
+    const notificationData = await getRepositories().notifications.get(
+      messageId,
+    );
+
+    if (!notificationData || notificationData.origin !== origin) {
+      return res.status(404).json({
+        error: "Notification Not Found",
+        message: "No notification found with this message ID",
       });
     }
 
@@ -195,7 +1123,10 @@ router.get("/status/:messageId", validateApiKey, async (req, res) => {
       messageId: messageId,
       status: notificationData.status,
       timestamp: notificationData.timestamp,
+      updatedAt: notificationData.updatedAt ?? notificationData.timestamp,
       origin: notificationData.origin,
+      ...(notificationData.error && { error: notificationData.error }),
+      history: notificationData.history || [],
     });
     return;
   } catch (error) {
@@ -208,4 +1139,68 @@ router.get("/status/:messageId", validateApiKey, async (req, res) => {
   }
 });
 
+/**
+ * POST /api/v1/notifications/:messageId/ack
+ * Acknowledge delivery, click or dismissal from the device (authenticated by
+ * the ack token sent in the push data, not an API key)
+ */
+router.post("/:messageId/ack", async (req, res) => {
+  try {
+    const { messageId } = req.params;
+
+    if (!messageId) {
+      return res.status(400).json({
+        error: "Invalid Request",
+        message: "Message ID parameter is required",
+      });
+    }
+
+    const { error, value } = ackSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: "Validation Error",
+        message: error.details[0]?.message || "Validation failed",
+      });
+    }
+
+    const { event, ackToken, deviceId, action, timestamp } =
+      value as NotificationAckRequest;
+
+    if (!verifyAckToken(messageId, ackToken)) {
+      return res.status(401).json({
+        error: "Unauthorized",
+        message: "Invalid acknowledgement token",
+      });
+    }
+
+    const log = await recordStatus(messageId, event, {
+      ...(deviceId && { deviceId }),
+      ...(action && { action }),
+      ...(timestamp && { timestamp }),
+    });
+
+    if (!log) {
+      return res.status(404).json({
+        error: "Notification Not Found",
+        message: "No notification found with this message ID",
+      });
+    }
+
+    console.log(`📬 Notification ${event} - MessageID: ${messageId}`);
+    res.status(200).json({
+      success: true,
+      messageId: messageId,
+      status: log.status,
+    });
+    return;
+  } catch (error) {
+    console.error("❌ Error recording notification acknowledgement:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to record acknowledgement",
+    });
+    return;
+  }
+});
+
 export default router;
@@ -1,27 +1,79 @@
 import express from "express";
 import Joi from "joi";
-import { getFirestore } from "../config/firebase";
-import { validateApiKey } from "../middleware/auth";
+import { parseOrigin, requirePermission, validateApiKey } from "../middleware/auth";
+import { validateWalletIdentity } from "../middleware/identityAuth";
 import { AuthenticatedRequest } from "../types";
+import { getRepositories } from "../repositories";
+import {
+  TOPIC_NAME_PATTERN,
+  getOriginTopics,
+  qualifyTopic,
+} from "../services/topicService";
+import { recordConsentEvent } from "../services/consentService";
+import { getEncryptionKeys } from "../services/deviceService";
+import { ENCRYPTION_SCHEME } from "../services/encryptionService";
+import { LOCALE_PATTERN } from "../services/templateService";
 import { registerSubscription } from '../controllers/subscriptionController';
 import { sendPushNotification } from '../controllers/sendPushController';
 
 const router = express.Router();
 
+// Device IDs become keys of the subscription's devices map
+const DEVICE_ID_PATTERN = /^[A-Za-z0-9_:-]{1,128}$/;
+
 // Validation schema for push subscription
 const subscriptionSchema = Joi.object({
-  endpoint: Joi.string().uri().required(),
+  fcmToken: Joi.string().max(4096).required(),
+  endpoint: Joi.string().uri({ scheme: ["https"] }).max(2048).optional(),
   expirationTime: Joi.date().allow(null).optional(),
   keys: Joi.object({
-    p256dh: Joi.string().required(),
-    auth: Joi.string().required(),
-  }).required(),
-  userId: Joi.string().required(), // Metanet user ID
+    p256dh: Joi.string().base64({ urlSafe: true, paddingRequired: false }).max(128).required(),
+    auth: Joi.string().base64({ urlSafe: true, paddingRequired: false }).max(64).required(),
+  }).optional(),
+  userId: Joi.string().max(256).required(), // Metanet user ID
   deviceInfo: Joi.object({
-    platform: Joi.string().valid("ios", "android").required(),
-    appVersion: Joi.string().optional(),
-    deviceId: Joi.string().optional(),
+    platform: Joi.string().valid("ios", "android", "web").required(),
+    appVersion: Joi.string().max(64).optional(),
+    deviceId: Joi.string().pattern(DEVICE_ID_PATTERN).optional(),
+    locale: Joi.string().pattern(LOCALE_PATTERN).optional(),
   }).optional(),
+  topics: Joi.array().items(Joi.string().pattern(TOPIC_NAME_PATTERN)).max(100).optional(),
+  timezone: Joi.string().max(64).optional(),
+});
+
+// Validation schema for registering from the wallet, where the userId is
+// the identity key and may be left out. The origin is stored as its host,
+// the same form API key origins are compared in.
+const walletRegistrationSchema = subscriptionSchema.keys({
+  origin: Joi.string()
+    .max(253)
+    .required()
+    .custom((value: string, helpers) => parseOrigin(value) ?? helpers.error("any.invalid")),
+  userId: Joi.string().max(256).optional(),
+});
+
+/**
+ * Validate a registration body against the schema before the controller
+ * builds the devices map from it
+ */
+function validateRegistration(schema: Joi.ObjectSchema): express.RequestHandler {
+  return (req, res, next) => {
+    const { error, value } = schema.validate(req.body);
+    if (error) {
+      res.status(400).json({
+        error: "Validation Error",
+        message: error.details[0]?.message || "Validation failed",
+      });
+      return;
+    }
+    req.body = value;
+    next();
+  };
+}
+
+// Validation schema for topic subscription
+const topicSchema = Joi.object({
+  topic: Joi.string().pattern(TOPIC_NAME_PATTERN).required(),
 });
 
 // Validation schema for permission update
@@ -34,8 +86,19 @@ const permissionSchema = Joi.object({
  * POST /api/v1/subscriptions/register
  * Register a new push subscription from metanet-mobile
  */
-router.post("/register", validateApiKey, (req, res, next) => {
-  console.log('Received subscription registration request:', req.body);
+router.post("/register", validateApiKey, requirePermission("subscriptions:manage"), validateRegistration(subscriptionSchema), registerSubscription);
+
+/**
+ * POST /api/v1/subscriptions/wallet/register
+ * Register a push subscription from metanet-mobile over a BRC-103 session,
+ * with the wallet's identity key as the userId
+ */
+router.post("/wallet/register", validateWalletIdentity, validateRegistration(walletRegistrationSchema), (req, res, next) => {
+  // The wallet names the site it is subscribing to
+  (req as AuthenticatedRequest).origin = req.body.origin;
+  console.log(
+    `Received wallet registration for ${req.body.origin} from ${(req as AuthenticatedRequest).identityKey?.substring(0, 8)}...`,
+  );
   next();
 }, registerSubscription);
 
@@ -43,19 +106,16 @@ router.post("/register", validateApiKey, (req, res, next) => {
  * POST /api/v1/subscriptions/send
  * Send a test notification
  */
-router.post("/send", validateApiKey, (req, res, next) => {
-  console.log('Received send notification request:', req.body);
-  next();
-}, sendPushNotification);
+router.post("/send", validateApiKey, requirePermission("notifications:send"), sendPushNotification);
 
 /**
  * DELETE /api/v1/subscriptions/:userKey
  * Unsubscribe a user from notifications
  */
-router.delete("/:userKey", validateApiKey, async (req, res) => {
+router.delete("/:userKey", validateApiKey, requirePermission("subscriptions:manage"), async (req, res) => {
   try {
     const { userKey } = req.params;
-    const origin = req.get('Origin') || req.headers['origin'] || req.headers['host'];
+    const origin = (req as AuthenticatedRequest).origin;
 
     if (!userKey) {
       return res.status(400).json({
@@ -64,25 +124,16 @@ router.delete("/:userKey", validateApiKey, async (req, res) => {
       });
     }
 
-    const db = getFirestore();
-    const userDoc = await db.collection("subscriptions").doc(userKey).get();
+    const { subscriptions } = getRepositories();
+    const userData = await subscriptions.get(userKey);
 
-    if (!userDoc.exists) {
+    if (!userData) {
       return res.status(404).json({
         error: "Subscription Not Found",
         message: "No subscription found for this user key",
       });
     }
 
-    const userData = userDoc.data();
-
-    if (!userData) {
-      return res.status(404).json({
-        error: "User Data Not Found",
-        message: "User data is missing or corrupted",
-      });
-    }
-
     // Remove permission for this origin
     if (userData.permissions && origin && userData.permissions[origin]) {
       delete userData.permissions[origin];
@@ -90,7 +141,7 @@ router.delete("/:userKey", validateApiKey, async (req, res) => {
 
     // If no permissions left, deactivate subscription
     const hasActivePermissions = Object.values(userData.permissions || {}).some(
-      (permission) => (permission as any)?.granted,
+      (permission) => permission?.granted,
     );
 
     if (!hasActivePermissions) {
@@ -99,14 +150,14 @@ router.delete("/:userKey", validateApiKey, async (req, res) => {
 
     userData.updatedAt = Date.now();
 
-    await db.collection("subscriptions").doc(userKey).set(userData);
+    await subscriptions.set(userKey, userData);
 
-    // Log unsubscription event
-    await db.collection("events").add({
-      type: "subscription_removed",
+    // Log unsubscription event; it also shows in the user's consent history
+    await recordConsentEvent("subscription_removed", {
+      userId: userData.userId,
       userKey: userKey,
-      origin: origin,
-      timestamp: Date.now(),
+      ...(origin && { origin }),
+      source: "site",
     });
 
     console.log("🗑️ Subscription removed successfully for userKey:", userKey);
@@ -129,10 +180,10 @@ router.delete("/:userKey", validateApiKey, async (req, res) => {
  * GET /api/v1/subscriptions/permissions/:userKey
  * Check permissions for a user key
  */
-router.get("/permissions/:userKey", validateApiKey, async (req, res) => {
+router.get("/permissions/:userKey", validateApiKey, requirePermission("subscriptions:manage"), async (req, res) => {
   try {
     const { userKey } = req.params;
-    const origin = req.get('Origin') || req.headers['origin'] || req.headers['host'];
+    const origin = (req as AuthenticatedRequest).origin;
 
     if (!userKey) {
       return res.status(400).json({
@@ -141,45 +192,261 @@ router.get("/permissions/:userKey", validateApiKey, async (req, res) => {
       });
     }
 
-    const db = getFirestore();
-    const userDoc = await db.collection("subscriptions").doc(userKey).get();
+    const userData = await getRepositories().subscriptions.get(userKey);
 
-    if (!userDoc.exists) {
+    if (!userData) {
       return res.status(404).json({
         error: "User Not Found",
         message: "No subscription found for this user key",
       });
     }
 
-    const userData = userDoc.data();
+    const permission = origin ? userData.permissions?.[origin] : undefined;
+    const hasPermission = !!permission?.granted;
+
+    res.status(200).json({
+      userKey: userKey,
+      origin: origin,
+      hasPermission: hasPermission,
+      timestamp: hasPermission ? permission?.timestamp : null,
+      active: !!userData.permissions?.[origin || ''],
+    });
+    return;
+  } catch (error) {
+    console.error("❌ Error checking permissions:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to check permissions",
+    });
+    return;
+  }
+});
+
+/**
+ * GET /api/v1/subscriptions/:userKey/topics
+ * List the caller's topics this user is subscribed to
+ */
+router.get("/:userKey/topics", validateApiKey, requirePermission("subscriptions:manage"), async (req, res) => {
+  try {
+    const { userKey } = req.params;
+    const origin = (req as AuthenticatedRequest).origin || '';
+
+    if (!userKey) {
+      return res.status(400).json({
+        error: "Bad Request",
+        message: "User key parameter is required",
+      });
+    }
+
+    const userData = await getRepositories().subscriptions.get(userKey);
+
+    if (!userData) {
+      return res.status(404).json({
+        error: "Subscription Not Found",
+        message: "No subscription found for this user key",
+      });
+    }
+
+    res.status(200).json({
+      userKey: userKey,
+      origin: origin,
+      topics: getOriginTopics(userData, origin),
+    });
+    return;
+  } catch (error) {
+    console.error("❌ Error listing topics:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to list topics",
+    });
+    return;
+  }
+});
+
+/**
+ * GET /api/v1/subscriptions/:userKey/keys
+ * Public keys of the user's devices, for encrypting notification content
+ * so only their app can read it
+ */
+router.get("/:userKey/keys", validateApiKey, requirePermission("notifications:send"), async (req, res) => {
+  try {
+    const { userKey } = req.params;
+    const origin = (req as AuthenticatedRequest).origin || '';
+
+    if (!userKey) {
+      return res.status(400).json({
+        error: "Bad Request",
+        message: "User key parameter is required",
+      });
+    }
+
+    const userData = await getRepositories().subscriptions.get(userKey);
 
     if (!userData) {
       return res.status(404).json({
-        error: "User Data Not Found",
-        message: "User data is missing or corrupted",
+        error: "Subscription Not Found",
+        message: "No subscription found for this user key",
       });
     }
 
-    const hasPermission =
-      userData.permissions &&
-      origin &&
-      userData.permissions[origin] &&
-      userData.permissions[origin].granted;
+    if (!userData.permissions?.[origin]?.granted) {
+      return res.status(403).json({
+        error: "Permission Denied",
+        message:
+          "Origin does not have permission to send notifications to this user",
+      });
+    }
 
+    // The origin is part of the associated data of every envelope
     res.status(200).json({
       userKey: userKey,
       origin: origin,
-      hasPermission: hasPermission,
-      timestamp:
-        hasPermission && origin ? userData.permissions[origin].timestamp : null,
-      active: !!userData.permissions?.[origin || ''],
+      scheme: ENCRYPTION_SCHEME,
+      devices: getEncryptionKeys(userData),
     });
     return;
   } catch (error) {
-    console.error("❌ Error checking permissions:", error);
+    console.error("❌ Error listing device keys:", error);
     res.status(500).json({
       error: "Internal Server Error",
-      message: "Failed to check permissions",
+      message: "Failed to list device keys",
+    });
+    return;
+  }
+});
+
+/**
+ * POST /api/v1/subscriptions/:userKey/topics
+ * Subscribe a user to one of the caller's topics
+ */
+router.post("/:userKey/topics", validateApiKey, requirePermission("subscriptions:manage"), async (req, res) => {
+  try {
+    const { userKey } = req.params;
+    const origin = (req as AuthenticatedRequest).origin || '';
+
+    if (!userKey) {
+      return res.status(400).json({
+        error: "Bad Request",
+        message: "User key parameter is required",
+      });
+    }
+
+    const { error, value } = topicSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: "Validation Error",
+        message: error.details[0]?.message || "Validation failed",
+      });
+    }
+
+    const { subscriptions, events } = getRepositories();
+    const userData = await subscriptions.get(userKey);
+
+    if (!userData) {
+      return res.status(404).json({
+        error: "Subscription Not Found",
+        message: "No subscription found for this user key",
+      });
+    }
+
+    if (!userData.permissions?.[origin]?.granted) {
+      return res.status(403).json({
+        error: "Permission Denied",
+        message: "Origin does not have permission to notify this user",
+      });
+    }
+
+    const topic = qualifyTopic(origin, value.topic);
+    const topics = userData.topics || [];
+
+    if (!topics.includes(topic)) {
+      await subscriptions.update(userKey, {
+        topics: [...topics, topic],
+        updatedAt: Date.now(),
+      });
+
+      await events.add({
+        type: "topic_subscribed",
+        userKey: userKey,
+        origin: origin,
+        topic: value.topic,
+        timestamp: Date.now(),
+      });
+    }
+
+    console.log(`🏷️ ${userKey} subscribed to topic ${topic}`);
+    res.status(200).json({
+      success: true,
+      topic: value.topic,
+      message: "Subscribed to topic successfully",
+    });
+    return;
+  } catch (error) {
+    console.error("❌ Error subscribing to topic:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to subscribe to topic",
+    });
+    return;
+  }
+});
+
+/**
+ * DELETE /api/v1/subscriptions/:userKey/topics/:topic
+ * Unsubscribe a user from one of the caller's topics
+ */
+router.delete("/:userKey/topics/:topic", validateApiKey, requirePermission("subscriptions:manage"), async (req, res) => {
+  try {
+    const { userKey, topic: topicName } = req.params;
+    const origin = (req as AuthenticatedRequest).origin || '';
+
+    if (!userKey || !topicName) {
+      return res.status(400).json({
+        error: "Bad Request",
+        message: "User key and topic parameters are required",
+      });
+    }
+
+    const { subscriptions, events } = getRepositories();
+    const userData = await subscriptions.get(userKey);
+
+    if (!userData) {
+      return res.status(404).json({
+        error: "Subscription Not Found",
+        message: "No subscription found for this user key",
+      });
+    }
+
+    const topic = qualifyTopic(origin, topicName);
+    const topics = userData.topics || [];
+
+    if (topics.includes(topic)) {
+      await subscriptions.update(userKey, {
+        topics: topics.filter((existing) => existing !== topic),
+        updatedAt: Date.now(),
+      });
+
+      await events.add({
+        type: "topic_unsubscribed",
+        userKey: userKey,
+        origin: origin,
+        topic: topicName,
+        timestamp: Date.now(),
+      });
+    }
+
+    console.log(`🏷️ ${userKey} unsubscribed from topic ${topic}`);
+    res.status(200).json({
+      success: true,
+      topic: topicName,
+      message: "Unsubscribed from topic successfully",
+    });
+    return;
+  } catch (error) {
+    console.error("❌ Error unsubscribing from topic:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to unsubscribe from topic",
     });
     return;
   }
@@ -0,0 +1,310 @@
+import express from "express";
+import Joi from "joi";
+import { requirePermission, validateApiKey } from "../middleware/auth";
+import {
+  WEBHOOK_EVENT_TYPES,
+  checkWebhookUrl,
+  createWebhook,
+  deleteWebhook,
+  getWebhook,
+  listWebhookDeliveries,
+  listWebhooks,
+  sendTestWebhook,
+  toWebhookSummary,
+  updateWebhook,
+} from "../services/webhookService";
+import { AuthenticatedRequest, WebhookDelivery } from "../types";
+
+const router = express.Router();
+
+// Every webhook route acts on the calling origin's webhooks
+router.use(validateApiKey, requirePermission("webhooks:manage"));
+
+function parseLimit(value: unknown): number {
+  const limit = parseInt(typeof value === "string" ? value : "", 10);
+  return Number.isNaN(limit) ? 50 : Math.min(Math.max(limit, 1), 500);
+}
+
+const DELIVERY_STATUSES: ReadonlyArray<WebhookDelivery["status"]> = [
+  "pending",
+  "processing",
+  "succeeded",
+  "failed",
+];
+
+// HTTPS only in production; checked again, with the resolved host, by checkWebhookUrl
+const webhookUrlSchema = Joi.string().uri({ scheme: ["https", "http"] }).max(2048);
+
+const webhookEventsSchema = Joi.array()
+  .items(Joi.string().valid(...WEBHOOK_EVENT_TYPES))
+  .min(1)
+  .unique();
+
+// Validation schema for registering a webhook
+const createWebhookSchema = Joi.object({
+  url: webhookUrlSchema.required(),
+  events: webhookEventsSchema.required(),
+  description: Joi.string().max(200).optional(),
+});
+
+// Validation schema for changing a webhook
+const updateWebhookSchema = Joi.object({
+  url: webhookUrlSchema.optional(),
+  events: webhookEventsSchema.optional(),
+  description: Joi.string().max(200).optional(),
+  active: Joi.boolean().optional(),
+}).min(1);
+
+/**
+ * POST /api/v1/webhooks
+ * Register a URL to receive signed callbacks for the origin's events
+ */
+router.post("/", async (req, res) => {
+  try {
+    const { error, value } = createWebhookSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: "Validation Error",
+        message: error.details[0]?.message || "Validation failed",
+      });
+    }
+
+    const urlError = await checkWebhookUrl(value.url);
+    if (urlError) {
+      return res.status(400).json({
+        error: "Validation Error",
+        message: urlError,
+      });
+    }
+
+    const origin = (req as AuthenticatedRequest).origin || '';
+    const webhook = await createWebhook(origin, value);
+
+    console.log(`🪝 Webhook ${webhook.webhookId} registered for ${origin}`);
+    res.status(201).json({
+      success: true,
+      webhook: toWebhookSummary(webhook),
+      secret: webhook.secret,
+      message: "Store this secret now - it cannot be retrieved again",
+    });
+    return;
+  } catch (error) {
+    console.error("❌ Error creating webhook:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to create webhook",
+    });
+    return;
+  }
+});
+
+/**
+ * GET /api/v1/webhooks
+ * List the origin's webhooks
+ */
+router.get("/", async (req, res) => {
+  try {
+    const origin = (req as AuthenticatedRequest).origin || '';
+    const webhooks = await listWebhooks(origin);
+
+    res.status(200).json({
+      count: webhooks.length,
+      webhooks: webhooks.map(toWebhookSummary),
+    });
+    return;
+  } catch (error) {
+    console.error("❌ Error listing webhooks:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to list webhooks",
+    });
+    return;
+  }
+});
+
+/**
+ * GET /api/v1/webhooks/:webhookId
+ * Get one of the origin's webhooks
+ */
+router.get("/:webhookId", async (req, res) => {
+  try {
+    const origin = (req as AuthenticatedRequest).origin || '';
+    const webhook = await getWebhook(origin, req.params.webhookId);
+
+    if (!webhook) {
+      return res.status(404).json({
+        error: "Webhook Not Found",
+        message: "No webhook found with this ID",
+      });
+    }
+
+    res.status(200).json({ webhook: toWebhookSummary(webhook) });
+    return;
+  } catch (error) {
+    console.error("❌ Error getting webhook:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to get webhook",
+    });
+    return;
+  }
+});
+
+/**
+ * PATCH /api/v1/webhooks/:webhookId
+ * Change a webhook's URL, events or description, or disable it
+ */
+router.patch("/:webhookId", async (req, res) => {
+  try {
+    const { error, value } = updateWebhookSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: "Validation Error",
+        message: error.details[0]?.message || "Validation failed",
+      });
+    }
+
+    const urlError = value.url ? await checkWebhookUrl(value.url) : null;
+    if (urlError) {
+      return res.status(400).json({
+        error: "Validation Error",
+        message: urlError,
+      });
+    }
+
+    const origin = (req as AuthenticatedRequest).origin || '';
+    const webhook = await updateWebhook(origin, req.params.webhookId, value);
+
+    if (!webhook) {
+      return res.status(404).json({
+        error: "Webhook Not Found",
+        message: "No webhook found with this ID",
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      webhook: toWebhookSummary(webhook),
+    });
+    return;
+  } catch (error) {
+    console.error("❌ Error updating webhook:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to update webhook",
+    });
+    return;
+  }
+});
+
+/**
+ * DELETE /api/v1/webhooks/:webhookId
+ * Delete a webhook; deliveries still waiting for a retry fail instead
+ */
+router.delete("/:webhookId", async (req, res) => {
+  try {
+    const origin = (req as AuthenticatedRequest).origin || '';
+    const deleted = await deleteWebhook(origin, req.params.webhookId);
+
+    if (!deleted) {
+      return res.status(404).json({
+        error: "Webhook Not Found",
+        message: "No webhook found with this ID",
+      });
+    }
+
+    console.log(`🪝 Webhook ${req.params.webhookId} deleted for ${origin}`);
+    res.status(200).json({
+      success: true,
+      message: "Webhook deleted",
+    });
+    return;
+  } catch (error) {
+    console.error("❌ Error deleting webhook:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to delete webhook",
+    });
+    return;
+  }
+});
+
+/**
+ * POST /api/v1/webhooks/:webhookId/test
+ * Send a signed "webhook.test" event right away and report how the endpoint answered
+ */
+router.post("/:webhookId/test", async (req, res) => {
+  try {
+    const origin = (req as AuthenticatedRequest).origin || '';
+    const webhook = await getWebhook(origin, req.params.webhookId);
+
+    if (!webhook) {
+      return res.status(404).json({
+        error: "Webhook Not Found",
+        message: "No webhook found with this ID",
+      });
+    }
+
+    const delivery = await sendTestWebhook(webhook);
+
+    res.status(200).json({
+      success: delivery.status === "succeeded",
+      delivery: delivery,
+    });
+    return;
+  } catch (error) {
+    console.error("❌ Error testing webhook:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to send test webhook",
+    });
+    return;
+  }
+});
+
+/**
+ * GET /api/v1/webhooks/:webhookId/deliveries
+ * Delivery log of a webhook, newest first, optionally filtered by status
+ */
+router.get("/:webhookId/deliveries", async (req, res) => {
+  try {
+    const origin = (req as AuthenticatedRequest).origin || '';
+    const webhook = await getWebhook(origin, req.params.webhookId);
+
+    if (!webhook) {
+      return res.status(404).json({
+        error: "Webhook Not Found",
+        message: "No webhook found with this ID",
+      });
+    }
+
+    const status = DELIVERY_STATUSES.find((candidate) => candidate === req.query.status);
+    if (req.query.status !== undefined && !status) {
+      return res.status(400).json({
+        error: "Validation Error",
+        message: `"status" must be one of ${DELIVERY_STATUSES.join(", ")}`,
+      });
+    }
+
+    const deliveries = await listWebhookDeliveries(
+      webhook.webhookId,
+      parseLimit(req.query.limit),
+      status,
+    );
+
+    res.status(200).json({
+      count: deliveries.length,
+      deliveries: deliveries,
+    });
+    return;
+  } catch (error) {
+    console.error("❌ Error listing webhook deliveries:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to list webhook deliveries",
+    });
+    return;
+  }
+});
+
+export default router;
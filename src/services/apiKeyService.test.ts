@@ -0,0 +1,148 @@
+import { getRepositories, MemoryStore, setStore } from "../repositories";
+import { ApiKeyInfo } from "../types";
+import {
+  createApiKey,
+  findApiKey,
+  getKeyPrefix,
+  migrateLegacyApiKeys,
+  scrubLegacyApiUsage,
+  toApiKeySummary,
+} from "./apiKeyService";
+
+const LEGACY_KEY = "legacy-plaintext-api-key-0123456789abcdef";
+
+function legacyKey(fields: Partial<ApiKeyInfo> = {}): ApiKeyInfo {
+  return {
+    origin: "coinflip.com",
+    permissions: ["notifications:send"],
+    active: true,
+    createdBy: "admin",
+    createdAt: 1,
+    updatedAt: 1,
+    ...fields,
+  };
+}
+
+describe("apiKeyService", () => {
+  beforeEach(() => {
+    setStore(new MemoryStore());
+  });
+
+  describe("hashed storage", () => {
+    it("stores a hash and prefix instead of the key", async () => {
+      const { apiKey, info } = await createApiKey(
+        { origin: "coinflip.com", permissions: ["notifications:send"] },
+        "admin",
+      );
+
+      const stored = await getRepositories().apiKeys.get(info.keyId);
+      expect(apiKey.startsWith("mnk_")).toBe(true);
+      expect(stored?.apiKey).toBeUndefined();
+      expect(stored?.keyHash).toMatch(/^[0-9a-f]{64}$/);
+      expect(stored?.keyPrefix).toBe(getKeyPrefix(apiKey));
+      expect(JSON.stringify(stored)).not.toContain(apiKey.substring(12));
+    });
+
+    it("finds a key by the presented secret", async () => {
+      const { apiKey, info } = await createApiKey(
+        { origin: "coinflip.com", permissions: ["notifications:send"] },
+        "admin",
+      );
+
+      const found = await findApiKey(apiKey);
+      expect(found?.id).toBe(info.keyId);
+      expect(found?.data.origin).toBe("coinflip.com");
+    });
+
+    it("rejects a key that only shares the prefix", async () => {
+      const { apiKey } = await createApiKey(
+        { origin: "coinflip.com", permissions: ["notifications:send"] },
+        "admin",
+      );
+      const forged = `${apiKey.substring(0, 12)}${"A".repeat(apiKey.length - 12)}`;
+
+      expect(await findApiKey(forged)).toBeNull();
+    });
+
+    it("summarizes a key without its secret or hash", async () => {
+      const { apiKey, info } = await createApiKey(
+        { origin: "coinflip.com", permissions: ["notifications:send"] },
+        "admin",
+      );
+
+      const summary = toApiKeySummary(info);
+      expect(summary).not.toHaveProperty("keyHash");
+      expect(summary).not.toHaveProperty("keySalt");
+      expect(summary.keyPreview).toBe(`${apiKey.substring(0, 12)}…`);
+    });
+  });
+
+  describe("migration", () => {
+    it("moves a key stored under its plaintext ID on first use", async () => {
+      const { apiKeys } = getRepositories();
+      await apiKeys.set(LEGACY_KEY, legacyKey());
+
+      const found = await findApiKey(LEGACY_KEY);
+
+      expect(found).not.toBeNull();
+      expect(found?.id).toBe(found?.data.keyId);
+      expect(await apiKeys.get(LEGACY_KEY)).toBeNull();
+      const migrated = await apiKeys.get(found?.id || "");
+      expect(migrated?.keyHash).toBeDefined();
+      expect(migrated?.apiKey).toBeUndefined();
+      expect((await findApiKey(LEGACY_KEY))?.id).toBe(found?.id);
+    });
+
+    it("moves keys that hold the plaintext in a field", async () => {
+      const { apiKeys } = getRepositories();
+      await apiKeys.set("auto-id", legacyKey({ apiKey: LEGACY_KEY }));
+
+      expect(await migrateLegacyApiKeys()).toBe(1);
+
+      const [doc] = await apiKeys.find([]);
+      expect(doc?.id).not.toBe("auto-id");
+      expect(doc?.data.apiKey).toBeUndefined();
+      expect((await findApiKey(LEGACY_KEY))?.id).toBe(doc?.id);
+      expect(await migrateLegacyApiKeys()).toBe(0);
+    });
+
+    it("replaces plaintext keys in old usage records with the keyId and prefix", async () => {
+      const { apiKeys, apiUsage } = getRepositories();
+      await apiKeys.set(LEGACY_KEY, legacyKey());
+      const usage = { origin: "coinflip.com", endpoint: "/send", method: "POST", timestamp: 1 };
+      await apiUsage.set("known", { ...usage, apiKey: LEGACY_KEY });
+      await apiUsage.set("deleted", { ...usage, apiKey: "deleted-plaintext-api-key" });
+      await migrateLegacyApiKeys();
+
+      expect(await scrubLegacyApiUsage()).toBe(2);
+
+      const keyId = (await findApiKey(LEGACY_KEY))?.data.keyId;
+      expect(await apiUsage.get("known")).toEqual({
+        ...usage,
+        keyId: keyId,
+        keyPrefix: getKeyPrefix(LEGACY_KEY),
+      });
+      expect(await apiUsage.get("deleted")).toEqual({
+        ...usage,
+        keyPrefix: getKeyPrefix("deleted-plaintext-api-key"),
+      });
+      expect(await scrubLegacyApiUsage()).toBe(0);
+    });
+
+    it("saves the keyId given to a hashed document without one", async () => {
+      const { apiKeys } = getRepositories();
+      const { apiKey, info } = await createApiKey(
+        { origin: "coinflip.com", permissions: ["notifications:send"] },
+        "admin",
+      );
+      const { keyId, ...withoutKeyId } = info;
+      await apiKeys.set(keyId, withoutKeyId);
+
+      const found = await findApiKey(apiKey);
+
+      expect(found?.data.keyId).toBeDefined();
+      expect((await apiKeys.get(keyId))?.keyId).toBe(found?.data.keyId);
+      expect((await findApiKey(apiKey))?.data.keyId).toBe(found?.data.keyId);
+    });
+  });
+});
@@ -0,0 +1,517 @@
+import * as crypto from "crypto";
+import { getRepositories, QueryFilter, StoredDocument } from "../repositories";
+import {
+  ApiKeyInfo,
+  ApiKeyPermission,
+  ApiKeyRateLimits,
+  ApiKeySummary,
+  ApiUsageLog,
+  NotificationQuotas,
+} from "../types";
+import {
+  deriveSigningSecret,
+  isRequestSigningConfigured,
+} from "./requestSigningService";
+
+// Permissions an API key can be granted
+export const API_KEY_PERMISSIONS: readonly ApiKeyPermission[] = [
+  "notifications:send", // POST /notifications/send, cancel scheduled sends
+  "notifications:batch", // POST /notifications/batch and /notifications/topic
+  "notifications:read", // notification status and scheduled listings
+  "subscriptions:manage", // register, unsubscribe, permissions and topics
+  "webhooks:manage", // /webhooks routes
+  "admin", // /admin routes
+];
+
+// Granted when a key is issued without an explicit permission list
+export const DEFAULT_API_KEY_PERMISSIONS: ApiKeyPermission[] = [
+  "notifications:send",
+  "notifications:read",
+];
+
+// Prefix that makes leaked keys easy to recognize in code and logs
+const API_KEY_PREFIX = "mnk_";
+
+// Characters of a key stored in clear for lookup: the "mnk_" marker plus
+// 48 random bits, or 8 characters of a key issued before the marker existed
+const KEY_PREFIX_LENGTH = 12;
+const LEGACY_KEY_PREFIX_LENGTH = 8;
+
+// How long a rotated key keeps working unless the caller says otherwise
+export const DEFAULT_ROTATION_GRACE_SECONDS = 24 * 60 * 60;
+
+export interface CreateApiKeyOptions {
+  origin: string;
+  origins?: string[];
+  permissions: string[];
+  environment?: "development" | "production";
+  name?: string;
+  expiresAt?: number;
+  identityKey?: string;
+  quotas?: NotificationQuotas;
+  rateLimits?: ApiKeyRateLimits;
+}
+
+export interface ApiKeyUsage {
+  keyId: string;
+  since: number;
+  // Every request since then, however many there were
+  requests: number;
+  // Requests by endpoint among the most recent `sampled` requests
+  sampled: number;
+  byEndpoint: Record<string, number>;
+  lastUsedAt: number | null;
+  recent: ApiUsageLog[];
+}
+
+/**
+ * New random API key: 256 bits of entropy, base64url encoded
+ */
+export function generateApiKey(): string {
+  return API_KEY_PREFIX + crypto.randomBytes(32).toString("base64url");
+}
+
+function generateKeyId(): string {
+  return crypto.randomBytes(8).toString("hex");
+}
+
+/**
+ * Non-secret leading characters of a key, used to find its document
+ */
+export function getKeyPrefix(apiKey: string): string {
+  return apiKey.substring(
+    0,
+    apiKey.startsWith(API_KEY_PREFIX) ? KEY_PREFIX_LENGTH : LEGACY_KEY_PREFIX_LENGTH,
+  );
+}
+
+function hashApiKey(apiKey: string, salt: string): string {
+  return crypto.createHash("sha256").update(salt).update(apiKey).digest("hex");
+}
+
+/**
+ * Fields that let a key be verified without storing it
+ */
+function hashFields(apiKey: string): Pick<ApiKeyInfo, "keyHash" | "keySalt" | "keyPrefix"> {
+  const keySalt = crypto.randomBytes(16).toString("hex");
+  return {
+    keyHash: hashApiKey(apiKey, keySalt),
+    keySalt: keySalt,
+    keyPrefix: getKeyPrefix(apiKey),
+  };
+}
+
+/**
+ * Constant-time check of a presented key against a stored hash
+ */
+function verifyApiKey(apiKey: string, info: ApiKeyInfo): boolean {
+  if (!info.keyHash || !info.keySalt) {
+    return false;
+  }
+  const expected = Buffer.from(info.keyHash, "hex");
+  const actual = Buffer.from(hashApiKey(apiKey, info.keySalt), "hex");
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Admin view of a key: no secret or hash, just a short preview
+ */
+export function toApiKeySummary(info: ApiKeyInfo & { keyId: string }): ApiKeySummary {
+  const { apiKey, keyHash, keySalt, ...rest } = info;
+  const prefix = info.keyPrefix || (apiKey && getKeyPrefix(apiKey)) || "";
+  return { ...rest, keyPreview: `${prefix}…` };
+}
+
+/**
+ * Move a document that still holds the plaintext key (as a field or as its
+ * document ID) to hashed storage, keyed by its keyId. Hashed documents
+ * without a keyId are given one in place; the rest are returned unchanged.
+ */
+export async function migrateApiKeyDocument(
+  doc: StoredDocument<ApiKeyInfo>,
+): Promise<StoredDocument<ApiKeyInfo & { keyId: string }>> {
+  const { apiKey: storedKey, ...rest } = doc.data;
+  const { apiKeys } = getRepositories();
+  if (rest.keyHash && rest.keyId) {
+    return { id: doc.id, data: { ...rest, keyId: rest.keyId } };
+  }
+
+  const keyId = rest.keyId || generateKeyId();
+  if (rest.keyHash) {
+    await apiKeys.update(doc.id, { keyId });
+    console.log(`🔐 API key ${keyId} assigned to hashed document ${doc.id}`);
+    return { id: doc.id, data: { ...rest, keyId } };
+  }
+  const apiKey = storedKey || doc.id;
+
+  const migrated: ApiKeyInfo & { keyId: string } = {
+    ...rest,
+    ...hashFields(apiKey),
+    keyId: keyId,
+  };
+  await apiKeys.set(keyId, migrated);
+  if (doc.id !== keyId) {
+    await apiKeys.delete(doc.id);
+  }
+
+  console.log(`🔐 API key ${keyId} migrated to hashed storage`);
+  return { id: keyId, data: migrated };
+}
+
+/**
+ * Migrate every API key document that still holds a plaintext key or has
+ * no keyId
+ */
+export async function migrateLegacyApiKeys(): Promise<number> {
+  const docs = await getRepositories().apiKeys.find([]);
+  const legacy = docs.filter(({ data }) => !data.keyHash || !data.keyId);
+  for (const doc of legacy) {
+    await migrateApiKeyDocument(doc);
+  }
+  return legacy.length;
+}
+
+/**
+ * Replace the plaintext key on apiUsage records written before hashed
+ * storage with its keyId and prefix. Records of keys that no longer exist
+ * keep only the prefix.
+ */
+export async function scrubLegacyApiUsage(): Promise<number> {
+  const { apiUsage } = getRepositories();
+  const legacy = await apiUsage.find([{ field: "apiKey", op: "!=", value: null }]);
+
+  const keyIds = new Map<string, string | undefined>();
+  for (const { id, data } of legacy) {
+    const { apiKey, ...rest } = data;
+    if (!apiKey) {
+      continue;
+    }
+    if (!keyIds.has(apiKey)) {
+      keyIds.set(apiKey, (await findApiKey(apiKey))?.data.keyId);
+    }
+    const keyId = keyIds.get(apiKey);
+
+    await apiUsage.set(id, {
+      ...rest,
+      ...(keyId && { keyId }),
+      keyPrefix: getKeyPrefix(apiKey),
+    });
+  }
+  return legacy.length;
+}
+
+/**
+ * Find the stored key matching a presented API key. Documents written before
+ * hashed storage are looked up by their old ID and migrated on first use.
+ */
+export async function findApiKey(
+  apiKey: string,
+): Promise<StoredDocument<ApiKeyInfo & { keyId: string }> | null> {
+  const { apiKeys } = getRepositories();
+
+  const candidates = await apiKeys.find([
+    { field: "keyPrefix", op: "==", value: getKeyPrefix(apiKey) },
+  ]);
+  for (const doc of candidates) {
+    if (verifyApiKey(apiKey, doc.data)) {
+      return migrateApiKeyDocument(doc);
+    }
+  }
+
+  // Legacy documents used the plaintext key as their ID
+  const legacy = await apiKeys.get(apiKey);
+  if (legacy && !legacy.keyHash) {
+    return migrateApiKeyDocument({ id: apiKey, data: legacy });
+  }
+
+  return null;
+}
+
+/**
+ * Issue a new API key. The raw key is only returned here and never stored.
+ */
+export async function createApiKey(
+  options: CreateApiKeyOptions,
+  createdBy: string,
+  replaces?: string,
+): Promise<{ apiKey: string; info: ApiKeyInfo & { keyId: string } }> {
+  const apiKey = generateApiKey();
+  const now = Date.now();
+  const info: ApiKeyInfo & { keyId: string } = {
+    ...hashFields(apiKey),
+    keyId: generateKeyId(),
+    origin: options.origin,
+    ...(options.origins?.length && { origins: options.origins }),
+    permissions: options.permissions,
+    environment: options.environment || "production",
+    active: true,
+    createdBy: createdBy,
+    createdAt: now,
+    updatedAt: now,
+    ...(options.name && { name: options.name }),
+    ...(options.expiresAt && { expiresAt: options.expiresAt }),
+    ...(options.identityKey && { identityKey: options.identityKey }),
+    ...(options.quotas && { quotas: options.quotas }),
+    ...(options.rateLimits && { rateLimits: options.rateLimits }),
+    ...(replaces && { replaces }),
+  };
+
+  await getRepositories().apiKeys.set(info.keyId, info);
+  return { apiKey, info };
+}
+
+/**
+ * Find a key by its keyId
+ */
+export async function getApiKey(
+  keyId: string,
+): Promise<StoredDocument<ApiKeyInfo & { keyId: string }> | null> {
+  const [doc] = await getRepositories().apiKeys.find(
+    [{ field: "keyId", op: "==", value: keyId }],
+    { limit: 1 },
+  );
+  return doc ? { id: doc.id, data: { ...doc.data, keyId } } : null;
+}
+
+/**
+ * Find the active key a site identity key is bound to. While a rotated key
+ * is in its grace period both carry the identity, so the replacement wins.
+ */
+export async function findApiKeyByIdentity(
+  identityKey: string,
+): Promise<StoredDocument<ApiKeyInfo & { keyId: string }> | null> {
+  const docs = await getRepositories().apiKeys.find([
+    { field: "identityKey", op: "==", value: identityKey },
+    { field: "active", op: "==", value: true },
+  ]);
+
+  const now = Date.now();
+  const usable = docs.filter(
+    ({ data }) => data.keyId && !(data.expiresAt && data.expiresAt <= now),
+  );
+  const doc = usable.find(({ data }) => !data.replacedBy) || usable[0];
+  return doc?.data.keyId
+    ? { id: doc.id, data: { ...doc.data, keyId: doc.data.keyId } }
+    : null;
+}
+
+/**
+ * List keys, optionally for one origin or by active state
+ */
+export async function listApiKeys(
+  filters: { origin?: string; active?: boolean },
+  limit: number,
+): Promise<ApiKeySummary[]> {
+  const docs = await getRepositories().apiKeys.find(
+    [
+      ...(filters.origin !== undefined
+        ? [{ field: "origin", op: "==" as const, value: filters.origin }]
+        : []),
+      ...(filters.active !== undefined
+        ? [{ field: "active", op: "==" as const, value: filters.active }]
+        : []),
+    ],
+    { limit },
+  );
+
+  // Listing also moves keys created by hand onto hashed storage
+  const keys = await Promise.all(docs.map(migrateApiKeyDocument));
+  return keys.map(({ data }) => toApiKeySummary(data));
+}
+
+/**
+ * Change the expiry, permissions, extra origins, name, signing
+ * requirement, bound identity key, quotas or rate limits of a key
+ */
+export async function updateApiKey(
+  keyId: string,
+  fields: {
+    expiresAt?: number | null;
+    permissions?: string[];
+    origins?: string[];
+    name?: string;
+    requireSignedRequests?: boolean;
+    identityKey?: string | null;
+    quotas?: NotificationQuotas | null;
+    rateLimits?: ApiKeyRateLimits | null;
+  },
+): Promise<ApiKeySummary | null> {
+  const doc = await getApiKey(keyId);
+  if (!doc) {
+    return null;
+  }
+
+  const { expiresAt, identityKey, quotas, rateLimits, ...rest } = fields;
+  const updated: ApiKeyInfo & { keyId: string } = {
+    ...doc.data,
+    ...rest,
+    updatedAt: Date.now(),
+  };
+  // null clears the expiry, identity key, quotas or rate limits; undefined
+  // leaves it unchanged
+  if (expiresAt === null) {
+    delete updated.expiresAt;
+  } else if (expiresAt !== undefined) {
+    updated.expiresAt = expiresAt;
+  }
+  if (identityKey === null) {
+    delete updated.identityKey;
+  } else if (identityKey !== undefined) {
+    updated.identityKey = identityKey;
+  }
+  if (quotas === null) {
+    delete updated.quotas;
+  } else if (quotas !== undefined) {
+    updated.quotas = quotas;
+  }
+  if (rateLimits === null) {
+    delete updated.rateLimits;
+  } else if (rateLimits !== undefined) {
+    updated.rateLimits = rateLimits;
+  }
+
+  await getRepositories().apiKeys.set(doc.id, updated);
+  return toApiKeySummary(updated);
+}
+
+/**
+ * Enable request signing for a key, or replace its signing secret. The secret
+ * is derived rather than stored, so it is only returned here.
+ */
+export async function issueSigningSecret(
+  keyId: string,
+  requireSignedRequests?: boolean,
+): Promise<{ signingSecret: string; key: ApiKeySummary } | null> {
+  const doc = await getApiKey(keyId);
+  if (!doc) {
+    return null;
+  }
+
+  const version = (doc.data.signingSecretVersion ?? 0) + 1;
+  const fields: Partial<ApiKeyInfo> = {
+    signingSecretVersion: version,
+    ...(requireSignedRequests !== undefined && { requireSignedRequests }),
+    updatedAt: Date.now(),
+  };
+  await getRepositories().apiKeys.update(doc.id, fields);
+
+  return {
+    signingSecret: deriveSigningSecret(keyId, version),
+    key: toApiKeySummary({ ...doc.data, ...fields }),
+  };
+}
+
+/**
+ * Deactivate a key immediately
+ */
+export async function revokeApiKey(keyId: string): Promise<ApiKeySummary | null> {
+  const doc = await getApiKey(keyId);
+  if (!doc) {
+    return null;
+  }
+
+  const now = Date.now();
+  const fields = { active: false, revokedAt: now, updatedAt: now };
+  await getRepositories().apiKeys.update(doc.id, fields);
+  return toApiKeySummary({ ...doc.data, ...fields });
+}
+
+/**
+ * Replace a key with a new one carrying the same origin and permissions.
+ * The old key keeps working for the grace period, then expires; a grace
+ * period of zero revokes it at once.
+ */
+export async function rotateApiKey(
+  keyId: string,
+  gracePeriodSeconds: number,
+  createdBy: string,
+  expiresAt?: number,
+): Promise<{
+  apiKey: string;
+  key: ApiKeySummary;
+  previous: ApiKeySummary;
+  signingSecret?: string;
+} | null> {
+  const doc = await getApiKey(keyId);
+  if (!doc) {
+    return null;
+  }
+
+  const old = doc.data;
+  const { apiKey, info } = await createApiKey(
+    {
+      origin: old.origin,
+      ...(old.origins && { origins: old.origins }),
+      permissions: old.permissions,
+      ...(old.environment && { environment: old.environment }),
+      ...(old.name && { name: old.name }),
+      ...(expiresAt && { expiresAt }),
+      ...(old.identityKey && { identityKey: old.identityKey }),
+      ...(old.quotas && { quotas: old.quotas }),
+      ...(old.rateLimits && { rateLimits: old.rateLimits }),
+    },
+    createdBy,
+    keyId,
+  );
+
+  const now = Date.now();
+  const graceEndsAt = now + gracePeriodSeconds * 1000;
+  const fields: Partial<ApiKeyInfo> =
+    gracePeriodSeconds === 0
+      ? { active: false, revokedAt: now, replacedBy: info.keyId, updatedAt: now }
+      : {
+          expiresAt: old.expiresAt ? Math.min(old.expiresAt, graceEndsAt) : graceEndsAt,
+          replacedBy: info.keyId,
+          updatedAt: now,
+        };
+  await getRepositories().apiKeys.update(doc.id, fields);
+
+  // A key that signs its requests needs a signing secret straight away
+  const signing =
+    old.signingSecretVersion !== undefined && isRequestSigningConfigured()
+      ? await issueSigningSecret(info.keyId, old.requireSignedRequests)
+      : null;
+
+  return {
+    apiKey,
+    key: signing?.key || toApiKeySummary(info),
+    previous: toApiKeySummary({ ...old, ...fields }),
+    ...(signing && { signingSecret: signing.signingSecret }),
+  };
+}
+
+/**
+ * Requests made with a key since the given time: the full count, and a
+ * breakdown of the most recent ones up to the limit
+ */
+export async function getApiKeyUsage(
+  keyId: string,
+  since: number,
+  limit: number,
+): Promise<ApiKeyUsage> {
+  const { apiUsage } = getRepositories();
+  const filters: QueryFilter[] = [
+    { field: "keyId", op: "==", value: keyId },
+    { field: "timestamp", op: ">=", value: since },
+  ];
+  const [requests, usage] = await Promise.all([
+    apiUsage.count(filters),
+    apiUsage.find(filters, { orderBy: { field: "timestamp", direction: "desc" }, limit }),
+  ]);
+
+  const byEndpoint: Record<string, number> = {};
+  for (const { data } of usage) {
+    const endpoint = `${data.method} ${data.endpoint}`;
+    byEndpoint[endpoint] = (byEndpoint[endpoint] || 0) + 1;
+  }
+
+  return {
+    keyId,
+    since,
+    requests,
+    sampled: usage.length,
+    byEndpoint,
+    lastUsedAt: usage[0]?.data.timestamp ?? null,
+    recent: usage.slice(0, 20).map(({ data }) => data),
+  };
+}
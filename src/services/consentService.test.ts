@@ -0,0 +1,44 @@
+import { getRepositories, MemoryStore, setStore } from "../repositories";
+import { getConsentHistory } from "./consentService";
+
+const USER_ID = "02".padEnd(66, "a");
+
+describe("consentService", () => {
+  beforeEach(() => {
+    setStore(new MemoryStore());
+  });
+
+  describe("getConsentHistory", () => {
+    async function addEvent(type: string, timestamp: number, userId = USER_ID) {
+      await getRepositories().events.add({ type, userId, origin: "coinflip.com", timestamp });
+    }
+
+    it("fills the limit with consent events when other events are newer", async () => {
+      await addEvent("permission_granted", 1);
+      await addEvent("notifications_paused", 2);
+      await addEvent("permission_revoked", 3);
+      for (let timestamp = 4; timestamp < 10; timestamp++) {
+        await addEvent("subscription_expired", timestamp);
+      }
+
+      const history = await getConsentHistory(USER_ID, 2);
+
+      expect(history.map(({ type }) => type)).toEqual([
+        "permission_revoked",
+        "notifications_paused",
+      ]);
+    });
+
+    it("pages back from a timestamp and keeps to the user's own events", async () => {
+      await addEvent("permission_granted", 1);
+      await addEvent("permission_revoked", 2);
+      await addEvent("permission_granted", 3, "someone-else");
+
+      const history = await getConsentHistory(USER_ID, 10, 2);
+
+      expect(history.map(({ type, timestamp }) => [type, timestamp])).toEqual([
+        ["permission_granted", 1],
+      ]);
+    });
+  });
+});
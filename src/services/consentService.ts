@@ -0,0 +1,285 @@
+import { getRepositories, StoredDocument } from "../repositories";
+import {
+  ConsentSource,
+  EventLog,
+  QuietHours,
+  UserSubscription,
+  WebhookEventType,
+} from "../types";
+import { getActiveDevices } from "./deviceService";
+import { emitWebhookEvent } from "./webhookService";
+
+// Event types that make up a user's consent history
+export const CONSENT_EVENT_TYPES = [
+  "permission_granted",
+  "permission_revoked",
+  "subscription_removed",
+  "notifications_paused",
+  "notifications_resumed",
+] as const;
+
+export type ConsentEventType = (typeof CONSENT_EVENT_TYPES)[number];
+
+// Consent events reported to the origin's webhooks
+const WEBHOOK_EVENTS: Partial<Record<ConsentEventType, WebhookEventType>> = {
+  permission_granted: "subscription.created",
+  permission_revoked: "subscription.revoked",
+  subscription_removed: "subscription.revoked",
+};
+
+export interface OriginConsent {
+  origin: string;
+  userKey: string;
+  granted: boolean;
+  // When the permission was last granted or revoked
+  timestamp: number | null;
+  active: boolean;
+  deviceCount: number;
+  identityVerified: boolean;
+  timezone: string | null;
+  quietHours: QuietHours | null;
+  doNotDisturb: boolean;
+}
+
+// Quiet hours settings the user can change from the mobile app; null clears
+export interface QuietHoursSettings {
+  timezone?: string;
+  quietHours?: QuietHours | null;
+  doNotDisturb?: boolean;
+}
+
+export interface PauseState {
+  paused: boolean;
+  pausedAt: number | null;
+  pausedUntil: number | null;
+}
+
+/**
+ * Whether the user has paused notifications on this subscription
+ */
+export function isSubscriptionPaused(
+  subscription: Pick<UserSubscription, "pausedAt" | "pausedUntil">,
+  now: number = Date.now(),
+): boolean {
+  if (!subscription.pausedAt) {
+    return false;
+  }
+  return !subscription.pausedUntil || subscription.pausedUntil > now;
+}
+
+/**
+ * Every subscription registered under a user's identity key, one per origin
+ */
+export async function getUserSubscriptions(
+  userId: string,
+): Promise<Array<StoredDocument<UserSubscription>>> {
+  return getRepositories().subscriptions.find([
+    { field: "userId", op: "==", value: userId },
+  ]);
+}
+
+function toOriginConsent({ id, data }: StoredDocument<UserSubscription>): OriginConsent {
+  const permission = data.permissions?.[data.origin];
+  return {
+    origin: data.origin,
+    userKey: id,
+    granted: !!permission?.granted,
+    timestamp: permission?.timestamp ?? null,
+    active: data.active,
+    deviceCount: getActiveDevices(data).length,
+    identityVerified: !!data.identityVerified,
+    timezone: data.timezone ?? null,
+    quietHours: data.quietHours ?? null,
+    doNotDisturb: !!data.doNotDisturb,
+  };
+}
+
+/**
+ * Origins the user has subscribed to and whether each may currently notify them
+ */
+export async function listConsents(userId: string): Promise<{
+  origins: OriginConsent[];
+  pause: PauseState;
+}> {
+  const docs = await getUserSubscriptions(userId);
+  return {
+    origins: docs
+      .map(toOriginConsent)
+      .sort((a, b) => a.origin.localeCompare(b.origin)),
+    pause: getPauseState(docs.map(({ data }) => data)),
+  };
+}
+
+/**
+ * Pause state across a user's subscriptions; they are paused and resumed together
+ */
+export function getPauseState(subscriptions: UserSubscription[]): PauseState {
+  const paused = subscriptions.find((subscription) => isSubscriptionPaused(subscription));
+  return {
+    paused: !!paused,
+    pausedAt: paused?.pausedAt ?? null,
+    pausedUntil: paused?.pausedUntil ?? null,
+  };
+}
+
+/**
+ * Record a grant or revoke in the events collection. userId is stored so the
+ * user's history can be read across all their subscriptions. Grants and
+ * revokes are also sent to the origin's webhooks.
+ */
+export async function recordConsentEvent(
+  type: ConsentEventType,
+  fields: {
+    userId: string;
+    userKey?: string;
+    origin?: string;
+    source: ConsentSource;
+    pausedUntil?: number;
+  },
+): Promise<void> {
+  const timestamp = Date.now();
+  await getRepositories().events.add({
+    type: type,
+    ...fields,
+    timestamp: timestamp,
+  });
+
+  const webhookEvent = WEBHOOK_EVENTS[type];
+  if (webhookEvent && fields.origin) {
+    await emitWebhookEvent(fields.origin, webhookEvent, {
+      userKey: fields.userKey,
+      userId: fields.userId,
+      reason: type,
+      source: fields.source,
+      occurredAt: timestamp,
+    });
+  }
+}
+
+/**
+ * Grant or revoke one origin's permission to notify the user. Returns null
+ * if the user has no subscription for that origin.
+ */
+export async function setOriginConsent(
+  userId: string,
+  origin: string,
+  granted: boolean,
+): Promise<OriginConsent | null> {
+  const { subscriptions } = getRepositories();
+  const [doc] = await subscriptions.find(
+    [
+      { field: "userId", op: "==", value: userId },
+      { field: "origin", op: "==", value: origin },
+    ],
+    { limit: 1 },
+  );
+  if (!doc) {
+    return null;
+  }
+
+  const current = doc.data.permissions?.[origin];
+  if (current && current.granted === granted) {
+    return toOriginConsent(doc);
+  }
+
+  const now = Date.now();
+  const permissions = {
+    ...doc.data.permissions,
+    [origin]: { granted, timestamp: now, source: "user" as const },
+  };
+  await subscriptions.update(doc.id, { permissions, updatedAt: now });
+  await recordConsentEvent(granted ? "permission_granted" : "permission_revoked", {
+    userId,
+    userKey: doc.id,
+    origin,
+    source: "user",
+  });
+
+  console.log(
+    `${granted ? "✅" : "🚫"} ${userId.substring(0, 8)}... ${granted ? "granted" : "revoked"} notifications from ${origin}`,
+  );
+  return toOriginConsent({ id: doc.id, data: { ...doc.data, permissions } });
+}
+
+/**
+ * Pause every subscription of the user, until the given time or until
+ * resumed, or resume them with paused set to false
+ */
+export async function setPaused(
+  userId: string,
+  paused: boolean,
+  pausedUntil?: number,
+): Promise<PauseState> {
+  const { subscriptions } = getRepositories();
+  const docs = await getUserSubscriptions(userId);
+  const now = Date.now();
+
+  const fields: Partial<UserSubscription> = paused
+    ? { pausedAt: now, pausedUntil: pausedUntil ?? null, updatedAt: now }
+    : { pausedAt: null, pausedUntil: null, updatedAt: now };
+  await Promise.all(docs.map(({ id }) => subscriptions.update(id, fields)));
+
+  await recordConsentEvent(paused ? "notifications_paused" : "notifications_resumed", {
+    userId,
+    source: "user",
+    ...(paused && pausedUntil && { pausedUntil }),
+  });
+
+  console.log(
+    `${paused ? "⏸️" : "▶️"} ${userId.substring(0, 8)}... ${paused ? "paused" : "resumed"} notifications on ${docs.length} subscription(s)`,
+  );
+  return paused
+    ? { paused: true, pausedAt: now, pausedUntil: pausedUntil ?? null }
+    : { paused: false, pausedAt: null, pausedUntil: null };
+}
+
+/**
+ * Change the user's timezone, quiet hours or do-not-disturb on every
+ * subscription, or only on the one for the given origin. Returns null if an
+ * origin was given and the user has no subscription for it.
+ */
+export async function setQuietHours(
+  userId: string,
+  settings: QuietHoursSettings,
+  origin?: string,
+): Promise<OriginConsent[] | null> {
+  const { subscriptions } = getRepositories();
+  const docs = (await getUserSubscriptions(userId)).filter(
+    ({ data }) => !origin || data.origin === origin,
+  );
+  if (origin && docs.length === 0) {
+    return null;
+  }
+
+  const fields: Partial<UserSubscription> = { ...settings, updatedAt: Date.now() };
+  await Promise.all(docs.map(({ id }) => subscriptions.update(id, fields)));
+
+  console.log(
+    `🌙 ${userId.substring(0, 8)}... updated quiet hours on ${docs.length} subscription(s)`,
+  );
+  return docs
+    .map(({ id, data }) => toOriginConsent({ id, data: { ...data, ...fields } }))
+    .sort((a, b) => a.origin.localeCompare(b.origin));
+}
+
+/**
+ * The user's grant, revoke and pause events, newest first
+ */
+export async function getConsentHistory(
+  userId: string,
+  limit: number,
+  before?: number,
+): Promise<EventLog[]> {
+  // Filtered on type in the query so other events do not use up the limit
+  const events = await getRepositories().events.find(
+    [
+      { field: "userId", op: "==", value: userId },
+      { field: "type", op: "in", value: CONSENT_EVENT_TYPES },
+      ...(before !== undefined
+        ? [{ field: "timestamp", op: "<" as const, value: before }]
+        : []),
+    ],
+    { orderBy: { field: "timestamp", direction: "desc" }, limit },
+  );
+  return events.map(({ data }) => data);
+}
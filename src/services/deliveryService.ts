@@ -0,0 +1,187 @@
+import { getPushTarget, PushPayload } from "../push";
+import {
+  DeliveryJob,
+  DeviceDeliveryResult,
+  NotificationPayload,
+  UserSubscription,
+} from "../types";
+import { getActiveDevices } from "./deviceService";
+import { createAckToken } from "./notificationLogService";
+import { createJob, enqueueAndSend } from "./queueService";
+
+export interface DeliveryRequest {
+  messageId: string;
+  userKey: string;
+  origin: string;
+  subscription: UserSubscription;
+  payload: PushPayload;
+  // Ciphertext for each device of an encrypted notification, by deviceId
+  encrypted?: Record<string, string> | undefined;
+}
+
+// Tag push data with the sending origin, message ID and ack token so the app
+// can report back
+function withMessageData(
+  data: Record<string, string> | undefined,
+  origin: string,
+  messageId: string,
+): Record<string, string> {
+  return {
+    ...data,
+    origin: origin,
+    messageId: messageId,
+    ackToken: createAckToken(messageId),
+    timestamp: Date.now().toString(),
+  };
+}
+
+/**
+ * Build the provider payload for a notification. Encrypted notifications
+ * carry nothing readable; each device's ciphertext is added on delivery.
+ */
+export function buildPushPayload(
+  notification: NotificationPayload,
+  origin: string,
+  messageId: string,
+  options: { silent?: boolean; tag?: string } = {},
+): PushPayload {
+  if (notification.encrypted) {
+    return {
+      title: "",
+      body: "",
+      ...(options.silent && { silent: true }),
+      ...(options.tag && { tag: options.tag }),
+      data: withMessageData(undefined, origin, messageId),
+    };
+  }
+
+  return {
+    title: notification.title,
+    body: notification.body,
+    icon: notification.icon,
+    badge: notification.badge,
+    ...(notification.image && { image: notification.image }),
+    ...(notification.url && { url: notification.url }),
+    ...(notification.actions?.length && { actions: notification.actions }),
+    ...(notification.sound && { sound: notification.sound }),
+    ...(notification.androidChannelId && {
+      androidChannelId: notification.androidChannelId,
+    }),
+    ...(options.silent && { silent: true }),
+    ...(options.tag && { tag: options.tag }),
+    data: withMessageData(notification.data, origin, messageId),
+  };
+}
+
+/**
+ * Build the provider payload for a data-only push, which the app handles in
+ * the background without showing anything
+ */
+export function buildDataPayload(
+  data: Record<string, string>,
+  origin: string,
+  messageId: string,
+  options: { tag?: string } = {},
+): PushPayload {
+  return {
+    title: "",
+    body: "",
+    dataOnly: true,
+    ...(options.tag && { tag: options.tag }),
+    data: withMessageData(data, origin, messageId),
+  };
+}
+
+/**
+ * Send each payload to every active device on its subscription, batching
+ * all device messages into as few provider calls as possible. Every device
+ * send is a durable queue job, so transient failures are retried later.
+ * Returns per-device results for each request, in input order.
+ */
+export async function deliverToSubscriptions(
+  requests: DeliveryRequest[],
+): Promise<DeviceDeliveryResult[][]> {
+  const results: DeviceDeliveryResult[][] = requests.map(() => []);
+  const jobs: DeliveryJob[] = [];
+  const pending: DeviceDeliveryResult[] = [];
+
+  requests.forEach((request, requestIndex) => {
+    for (const device of getActiveDevices(request.subscription)) {
+      const result: DeviceDeliveryResult = {
+        deviceId: device.deviceId,
+        ...(device.deviceInfo?.platform && {
+          platform: device.deviceInfo.platform,
+        }),
+        success: false,
+      };
+      results[requestIndex]?.push(result);
+
+      const target = getPushTarget(device);
+      if (!target) {
+        result.error = {
+          code: "no-push-target",
+          message: "Device has no FCM token or Web Push endpoint",
+        };
+        continue;
+      }
+
+      // Encrypted content only goes to the devices the site encrypted it for
+      const ciphertext = request.encrypted?.[device.deviceId];
+      if (request.encrypted && !ciphertext) {
+        result.error = {
+          code: "no-ciphertext",
+          message: "No encrypted content was provided for this device",
+        };
+        continue;
+      }
+
+      jobs.push(
+        createJob({
+          messageId: request.messageId,
+          userKey: request.userKey,
+          origin: request.origin,
+          deviceId: device.deviceId,
+          target,
+          payload: ciphertext
+            ? { ...request.payload, encrypted: ciphertext }
+            : request.payload,
+        }),
+      );
+      pending.push(result);
+    }
+  });
+
+  const outcomes = jobs.length > 0 ? await enqueueAndSend(jobs) : [];
+
+  outcomes.forEach((outcome, i) => {
+    const result = pending[i] as DeviceDeliveryResult;
+    if (outcome.status === "sent") {
+      result.success = true;
+      result.providerMessageId = outcome.providerMessageId;
+      return;
+    }
+
+    console.error(
+      `❌ Delivery failed for device ${result.deviceId}:`,
+      outcome.error.message,
+    );
+    result.error = outcome.error;
+    if (outcome.status === "retrying") {
+      result.retrying = true;
+      result.nextAttemptAt = outcome.nextAttemptAt;
+    }
+  });
+
+  return results;
+}
+
+/**
+ * Send a payload to every active device on a subscription.
+ * Failures are reported per device rather than thrown.
+ */
+export async function deliverToSubscription(
+  request: DeliveryRequest,
+): Promise<DeviceDeliveryResult[]> {
+  const [results] = await deliverToSubscriptions([request]);
+  return results || [];
+}
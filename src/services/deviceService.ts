@@ -0,0 +1,136 @@
+import * as crypto from "crypto";
+import {
+  DeviceEncryptionKey,
+  DeviceInfo,
+  DeviceRegistration,
+  UserSubscription,
+} from "../types";
+
+/**
+ * Stable device ID for registrations that do not report deviceInfo.deviceId,
+ * so re-registering the same token does not create a second device
+ */
+export function deriveDeviceId(tokenOrEndpoint: string): string {
+  return crypto
+    .createHash("sha256")
+    .update(tokenOrEndpoint)
+    .digest("hex")
+    .substring(0, 16);
+}
+
+/**
+ * All device registrations on a subscription, including the single
+ * device stored on documents written before multi-device support
+ */
+export function getDevices(subscription: UserSubscription): DeviceRegistration[] {
+  if (subscription.devices) {
+    return Object.values(subscription.devices);
+  }
+
+  const tokenOrEndpoint = subscription.fcmToken || subscription.endpoint;
+  if (!tokenOrEndpoint) {
+    return [];
+  }
+
+  return [
+    {
+      deviceId: subscription.deviceInfo?.deviceId || deriveDeviceId(tokenOrEndpoint),
+      ...(subscription.fcmToken && { fcmToken: subscription.fcmToken }),
+      ...(subscription.endpoint && { endpoint: subscription.endpoint }),
+      ...(subscription.keys && { keys: subscription.keys }),
+      ...(subscription.deviceInfo && { deviceInfo: subscription.deviceInfo }),
+      active: subscription.active,
+      createdAt: subscription.createdAt,
+      updatedAt: subscription.updatedAt,
+    },
+  ];
+}
+
+/**
+ * Whether a device's push subscription has passed its expirationTime
+ */
+export function isDeviceExpired(device: DeviceRegistration, now: number = Date.now()): boolean {
+  return device.expirationTime !== undefined && device.expirationTime <= now;
+}
+
+/**
+ * Devices that should receive notifications
+ */
+export function getActiveDevices(subscription: UserSubscription): DeviceRegistration[] {
+  const now = Date.now();
+  return getDevices(subscription).filter(
+    (device) => device.active && !isDeviceExpired(device, now),
+  );
+}
+
+/**
+ * Public keys of the active devices that can decrypt end-to-end encrypted
+ * notifications: app installs that registered keys with their FCM token.
+ * Browsers keep their Web Push private key from the page, so web-only
+ * devices are left out. The Web Push auth secret is never shared.
+ */
+export function getEncryptionKeys(subscription: UserSubscription): DeviceEncryptionKey[] {
+  return getActiveDevices(subscription).flatMap((device) =>
+    device.fcmToken && device.keys
+      ? [
+          {
+            deviceId: device.deviceId,
+            ...(device.deviceInfo?.platform && { platform: device.deviceInfo.platform }),
+            p256dh: device.keys.p256dh,
+          },
+        ]
+      : [],
+  );
+}
+
+/**
+ * Earliest expirationTime among active devices, or null if none expire
+ */
+export function getNextExpiration(
+  devices: Record<string, DeviceRegistration>,
+): number | null {
+  const expirations = Object.values(devices)
+    .filter((device) => device.active && device.expirationTime !== undefined)
+    .map((device) => device.expirationTime as number);
+  return expirations.length > 0 ? Math.min(...expirations) : null;
+}
+
+/**
+ * Add or replace a device on a subscription, migrating legacy single-device
+ * fields into the devices map. Returns the updated device map.
+ */
+export function upsertDevice(
+  subscription: UserSubscription | null,
+  registration: {
+    fcmToken: string;
+    endpoint?: string;
+    keys?: { p256dh: string; auth: string };
+    deviceInfo?: DeviceInfo;
+    expirationTime?: number;
+  },
+  now: number,
+): Record<string, DeviceRegistration> {
+  const devices: Record<string, DeviceRegistration> = {};
+  for (const device of subscription ? getDevices(subscription) : []) {
+    devices[device.deviceId] = device;
+  }
+
+  const deviceId =
+    registration.deviceInfo?.deviceId || deriveDeviceId(registration.fcmToken);
+
+  devices[deviceId] = {
+    deviceId,
+    fcmToken: registration.fcmToken,
+    ...(registration.endpoint && { endpoint: registration.endpoint }),
+    ...(registration.keys && { keys: registration.keys }),
+    ...(registration.deviceInfo && { deviceInfo: registration.deviceInfo }),
+    ...(registration.expirationTime !== undefined && {
+      expirationTime: registration.expirationTime,
+    }),
+    active: true,
+    createdAt: devices[deviceId]?.createdAt ?? now,
+    updatedAt: now,
+  };
+
+  return devices;
+}
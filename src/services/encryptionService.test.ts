@@ -0,0 +1,59 @@
+import * as crypto from "crypto";
+import { isWellFormedEnvelope, openNotification, sealNotification } from "./encryptionService";
+
+const CONTENT = JSON.stringify({ title: "Your turn", body: "Alice flipped heads" });
+
+function deviceKeys() {
+  const device = crypto.createECDH("prime256v1");
+  const publicKey = device.generateKeys().toString("base64url");
+  return { publicKey, privateKey: device.getPrivateKey() };
+}
+
+describe("encryptionService", () => {
+  it("opens what was sealed to the device", () => {
+    const { publicKey, privateKey } = deviceKeys();
+
+    const envelope = sealNotification(publicKey, "coinflip.com", "message-1", CONTENT);
+
+    expect(isWellFormedEnvelope(envelope)).toBe(true);
+    expect(envelope).not.toContain("Alice");
+    expect(openNotification(privateKey, envelope, "coinflip.com", "message-1")).toBe(CONTENT);
+  });
+
+  it("seals the same content differently each time", () => {
+    const { publicKey } = deviceKeys();
+
+    expect(sealNotification(publicKey, "coinflip.com", "message-1", CONTENT)).not.toBe(
+      sealNotification(publicKey, "coinflip.com", "message-1", CONTENT),
+    );
+  });
+
+  it("only opens for the origin and message it was sealed for", () => {
+    const { publicKey, privateKey } = deviceKeys();
+    const envelope = sealNotification(publicKey, "coinflip.com", "message-1", CONTENT);
+
+    expect(openNotification(privateKey, envelope, "evil.example", "message-1")).toBeNull();
+    expect(openNotification(privateKey, envelope, "coinflip.com", "message-2")).toBeNull();
+  });
+
+  it("does not open on another device", () => {
+    const { publicKey } = deviceKeys();
+    const other = deviceKeys();
+    const envelope = sealNotification(publicKey, "coinflip.com", "message-1", CONTENT);
+
+    expect(openNotification(other.privateKey, envelope, "coinflip.com", "message-1")).toBeNull();
+  });
+
+  it("rejects a tampered or malformed envelope", () => {
+    const { publicKey, privateKey } = deviceKeys();
+    const bytes = Buffer.from(
+      sealNotification(publicKey, "coinflip.com", "message-1", CONTENT),
+      "base64url",
+    );
+    bytes[bytes.length - 20] = (bytes[bytes.length - 20] ?? 0) ^ 0xff;
+    const tampered = bytes.toString("base64url");
+
+    expect(openNotification(privateKey, tampered, "coinflip.com", "message-1")).toBeNull();
+    expect(isWellFormedEnvelope("bm90IGFuIGVudmVsb3Bl")).toBe(false);
+  });
+});
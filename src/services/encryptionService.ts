@@ -0,0 +1,123 @@
+import * as crypto from "crypto";
+
+// Envelope for end-to-end encrypted notification content. A site seals the
+// notification JSON to one device's P-256 public key (the p256dh it
+// registered); only the app holding the private key can open it.
+//
+//   version (1 byte, 0x01)
+//   | ephemeral P-256 public key (65 bytes, uncompressed)
+//   | nonce (12 bytes)
+//   | AES-256-GCM ciphertext
+//   | GCM tag (16 bytes)
+//
+// The AES key is HKDF-SHA256 of the ECDH secret between the ephemeral key and
+// the device key, with an empty salt and the info
+// "metanet-notification-v1" | 0x00 | device public key | ephemeral public key.
+// The associated data is "<origin>\n<messageId>", so content only opens for
+// the origin and message it was sealed for. The envelope is sent base64url
+// encoded.
+export const ENCRYPTION_SCHEME = "metanet-notification-v1";
+
+const ENVELOPE_VERSION = 0x01;
+const PUBLIC_KEY_LENGTH = 65;
+const NONCE_LENGTH = 12;
+const TAG_LENGTH = 16;
+const HEADER_LENGTH = 1 + PUBLIC_KEY_LENGTH + NONCE_LENGTH;
+
+function deriveKey(
+  sharedSecret: Buffer,
+  devicePublicKey: Buffer,
+  ephemeralPublicKey: Buffer,
+): Buffer {
+  const info = Buffer.concat([
+    Buffer.from(ENCRYPTION_SCHEME, "utf8"),
+    Buffer.from([0]),
+    devicePublicKey,
+    ephemeralPublicKey,
+  ]);
+  return Buffer.from(crypto.hkdfSync("sha256", sharedSecret, Buffer.alloc(0), info, 32));
+}
+
+/**
+ * Associated data binding an envelope to the sending origin and message
+ */
+function associatedData(origin: string, messageId: string): Buffer {
+  return Buffer.from(`${origin}\n${messageId}`, "utf8");
+}
+
+/**
+ * Whether a base64url string has the shape of a version 1 envelope. The
+ * server cannot open envelopes; this only rejects obvious mistakes early.
+ */
+export function isWellFormedEnvelope(envelope: string): boolean {
+  const bytes = Buffer.from(envelope, "base64url");
+  return bytes.length > HEADER_LENGTH + TAG_LENGTH && bytes[0] === ENVELOPE_VERSION;
+}
+
+/**
+ * Seal content to a device's base64url p256dh key. Reference implementation
+ * of what a site does before sending encrypted content.
+ */
+export function sealNotification(
+  devicePublicKey: string,
+  origin: string,
+  messageId: string,
+  plaintext: string,
+): string {
+  const deviceKey = Buffer.from(devicePublicKey, "base64url");
+  const ephemeral = crypto.createECDH("prime256v1");
+  const ephemeralPublicKey = ephemeral.generateKeys();
+  const key = deriveKey(ephemeral.computeSecret(deviceKey), deviceKey, ephemeralPublicKey);
+
+  const nonce = crypto.randomBytes(NONCE_LENGTH);
+  const cipher = crypto.createCipheriv("aes-256-gcm", key, nonce);
+  cipher.setAAD(associatedData(origin, messageId));
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+
+  return Buffer.concat([
+    Buffer.from([ENVELOPE_VERSION]),
+    ephemeralPublicKey,
+    nonce,
+    ciphertext,
+    cipher.getAuthTag(),
+  ]).toString("base64url");
+}
+
+/**
+ * Open an envelope with the device's private key, using the origin and
+ * messageId from the push data. Reference implementation of what the app
+ * does; returns null if the envelope was not sealed for this device,
+ * origin and message.
+ */
+export function openNotification(
+  devicePrivateKey: Buffer,
+  envelope: string,
+  origin: string,
+  messageId: string,
+): string | null {
+  if (!isWellFormedEnvelope(envelope)) {
+    return null;
+  }
+  const bytes = Buffer.from(envelope, "base64url");
+  const ephemeralPublicKey = bytes.subarray(1, 1 + PUBLIC_KEY_LENGTH);
+  const nonce = bytes.subarray(1 + PUBLIC_KEY_LENGTH, HEADER_LENGTH);
+  const ciphertext = bytes.subarray(HEADER_LENGTH, bytes.length - TAG_LENGTH);
+  const tag = bytes.subarray(bytes.length - TAG_LENGTH);
+
+  try {
+    const device = crypto.createECDH("prime256v1");
+    device.setPrivateKey(devicePrivateKey);
+    const key = deriveKey(
+      device.computeSecret(ephemeralPublicKey),
+      device.getPublicKey(),
+      ephemeralPublicKey,
+    );
+
+    const decipher = crypto.createDecipheriv("aes-256-gcm", key, nonce);
+    decipher.setAAD(associatedData(origin, messageId));
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString("utf8");
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,87 @@
+import { getRepositories, MemoryStore, setStore } from "../repositories";
+import { DeviceRegistration } from "../types";
+import { getNextExpiration } from "./deviceService";
+import { expireDevices, runExpirySweep } from "./expiryService";
+
+const NOW = Date.UTC(2026, 0, 15, 10, 0);
+
+function device(deviceId: string, expirationTime?: number): DeviceRegistration {
+  return {
+    deviceId,
+    endpoint: `https://push.example.invalid/${deviceId}`,
+    fcmToken: `fcm-token-${deviceId}`,
+    ...(expirationTime !== undefined && { expirationTime }),
+    active: true,
+    createdAt: NOW,
+    updatedAt: NOW,
+  };
+}
+
+async function subscribe(devices: DeviceRegistration[]) {
+  const byId = Object.fromEntries(devices.map((entry) => [entry.deviceId, entry]));
+  await getRepositories().subscriptions.set("user-1", {
+    userKey: "user-1",
+    origin: "coinflip.com",
+    userId: "user-1",
+    devices: byId,
+    nextExpirationAt: getNextExpiration(byId),
+    permissions: { "coinflip.com": { granted: true, timestamp: NOW } },
+    active: true,
+    createdAt: NOW,
+    updatedAt: NOW,
+  });
+}
+
+describe("expiryService", () => {
+  beforeEach(() => {
+    setStore(new MemoryStore());
+  });
+
+  it("deactivates pruned devices and records why", async () => {
+    await subscribe([device("phone"), device("tablet")]);
+
+    expect(
+      await expireDevices("user-1", ["phone"], "invalid_token", "messaging/invalid-registration-token"),
+    ).toBe(1);
+
+    const subscription = await getRepositories().subscriptions.get("user-1");
+    expect(subscription?.devices?.phone).toMatchObject({
+      active: false,
+      deactivationReason: "invalid_token",
+    });
+    expect(subscription?.devices?.tablet?.active).toBe(true);
+    expect(subscription?.active).toBe(true);
+
+    const events = await getRepositories().events.find([]);
+    expect(events.map(({ data }) => data)).toEqual([
+      expect.objectContaining({
+        type: "subscription_expired",
+        deviceId: "phone",
+        errorCode: "messaging/invalid-registration-token",
+      }),
+    ]);
+  });
+
+  it("deactivates the subscription with its last device", async () => {
+    await subscribe([device("phone")]);
+
+    await expireDevices("user-1", ["phone"], "invalid_token");
+    expect(await expireDevices("user-1", ["phone"], "invalid_token")).toBe(0);
+
+    expect((await getRepositories().subscriptions.get("user-1"))?.active).toBe(false);
+  });
+
+  it("sweeps devices whose push subscription has expired", async () => {
+    await subscribe([device("phone", NOW + 1000), device("tablet", NOW + 60 * 1000)]);
+
+    expect(await runExpirySweep(NOW)).toBe(0);
+    expect(await runExpirySweep(NOW + 1000)).toBe(1);
+
+    const subscription = await getRepositories().subscriptions.get("user-1");
+    expect(subscription?.devices?.phone).toMatchObject({
+      active: false,
+      deactivationReason: "expired",
+    });
+    expect(subscription?.nextExpirationAt).toBe(NOW + 60 * 1000);
+  });
+});
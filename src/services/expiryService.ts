@@ -0,0 +1,163 @@
+import { getRepositories } from "../repositories";
+import { DeviceDeactivationReason, DeviceRegistration } from "../types";
+import { getDevices, getNextExpiration, isDeviceExpired } from "./deviceService";
+
+// Retries when another writer changed the subscription between our read and write
+const MAX_WRITE_ATTEMPTS = 5;
+
+// Subscriptions checked per sweep tick
+const SWEEP_BATCH_SIZE = 100;
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+/**
+ * Mark devices on a subscription inactive because their token or endpoint
+ * no longer works, recording a subscription_expired event for each. The
+ * subscription itself goes inactive once it has no active devices left.
+ * Returns the number of devices deactivated.
+ */
+export async function expireDevices(
+  userKey: string,
+  deviceIds: string[],
+  reason: DeviceDeactivationReason,
+  errorCode?: string,
+): Promise<number> {
+  const { subscriptions, events } = getRepositories();
+
+  for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+    const subscription = await subscriptions.get(userKey);
+    if (!subscription) {
+      return 0;
+    }
+
+    // updatedAt doubles as the write guard, so it must change on every write
+    const now = Math.max(Date.now(), subscription.updatedAt + 1);
+    const devices: Record<string, DeviceRegistration> = {};
+    const expired: DeviceRegistration[] = [];
+    for (const device of getDevices(subscription)) {
+      if (device.active && deviceIds.includes(device.deviceId)) {
+        devices[device.deviceId] = {
+          ...device,
+          active: false,
+          deactivatedAt: now,
+          deactivationReason: reason,
+          updatedAt: now,
+        };
+        expired.push(device);
+      } else {
+        devices[device.deviceId] = device;
+      }
+    }
+
+    if (expired.length === 0) {
+      return 0;
+    }
+
+    const active = Object.values(devices).some((device) => device.active);
+    const updated = await subscriptions.updateIf(
+      userKey,
+      { updatedAt: subscription.updatedAt },
+      {
+        devices,
+        nextExpirationAt: getNextExpiration(devices),
+        active,
+        updatedAt: now,
+      },
+    );
+    if (!updated) {
+      continue;
+    }
+
+    await Promise.all(
+      expired.map((device) =>
+        events.add({
+          type: "subscription_expired",
+          userKey: userKey,
+          origin: subscription.origin,
+          deviceId: device.deviceId,
+          reason: reason,
+          ...(errorCode && { errorCode }),
+          timestamp: now,
+        }),
+      ),
+    );
+
+    console.log(
+      `🧹 Deactivated ${expired.length} device(s) for ${userKey.substring(0, 8)}... (${errorCode || reason})`,
+    );
+    if (!active) {
+      console.log(`🧹 Subscription ${userKey.substring(0, 8)}... has no active devices left`);
+    }
+    return expired.length;
+  }
+
+  throw new Error(`Could not expire devices for ${userKey}: too many concurrent updates`);
+}
+
+/**
+ * Deactivate devices whose PushSubscription.expirationTime has passed
+ */
+export async function runExpirySweep(now: number = Date.now()): Promise<number> {
+  const { subscriptions } = getRepositories();
+  const due = await subscriptions.find(
+    [{ field: "nextExpirationAt", op: "<=", value: now }],
+    { orderBy: { field: "nextExpirationAt" }, limit: SWEEP_BATCH_SIZE },
+  );
+
+  let expired = 0;
+  for (const { id, data } of due) {
+    const deviceIds = getDevices(data)
+      .filter((device) => device.active && isDeviceExpired(device, now))
+      .map((device) => device.deviceId);
+
+    if (deviceIds.length === 0) {
+      // Stale marker, e.g. the device re-registered with a later expiry meanwhile
+      await subscriptions.update(id, {
+        nextExpirationAt: data.devices ? getNextExpiration(data.devices) : null,
+      });
+      continue;
+    }
+    expired += await expireDevices(id, deviceIds, "expired");
+  }
+  return expired;
+}
+
+/**
+ * Start sweeping for expired push subscriptions in the background
+ */
+export function startExpirySweep(
+  intervalMs: number = parseInt(process.env.EXPIRY_SWEEP_INTERVAL_MS || "3600000", 10),
+): void {
+  if (timer) {
+    return;
+  }
+
+  timer = setInterval(async () => {
+    // Skip this tick if the previous sweep is still running
+    if (running) {
+      return;
+    }
+    running = true;
+    try {
+      await runExpirySweep();
+    } catch (error) {
+      console.error("❌ Expiry sweep failed:", error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+  timer.unref();
+
+  console.log(`🧹 Subscription expiry sweep started (every ${intervalMs}ms)`);
+}
+
+/**
+ * Stop the background expiry sweep
+ */
+export function stopExpirySweep(): void {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
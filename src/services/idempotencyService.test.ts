@@ -0,0 +1,91 @@
+import { MemoryStore, setStore } from "../repositories";
+import {
+  claimIdempotencyKey,
+  completeIdempotencyKey,
+  getIdempotencyWindowMs,
+  releaseIdempotencyKey,
+} from "./idempotencyService";
+
+const NOW = Date.UTC(2026, 0, 15, 10, 0);
+
+describe("idempotencyService", () => {
+  beforeEach(() => {
+    setStore(new MemoryStore());
+  });
+
+  it("lets the first request with a key go ahead", async () => {
+    const claim = await claimIdempotencyKey("coinflip.com", "key-1", "hash-a", NOW);
+    expect(claim.outcome).toBe("claimed");
+  });
+
+  it("holds repeats while the first request is processing", async () => {
+    await claimIdempotencyKey("coinflip.com", "key-1", "hash-a", NOW);
+
+    const repeat = await claimIdempotencyKey("coinflip.com", "key-1", "hash-a", NOW + 1000);
+    expect(repeat.outcome).toBe("in_progress");
+  });
+
+  it("replays the stored response once the request completes", async () => {
+    const claim = await claimIdempotencyKey("coinflip.com", "key-1", "hash-a", NOW);
+    if (claim.outcome !== "claimed") {
+      throw new Error("expected the key to be claimed");
+    }
+    await completeIdempotencyKey(claim.id, 200, JSON.stringify({ messageId: "message-1" }));
+
+    const repeat = await claimIdempotencyKey("coinflip.com", "key-1", "hash-a", NOW + 1000);
+
+    expect(repeat.outcome).toBe("replay");
+    if (repeat.outcome === "replay") {
+      expect(repeat.record.statusCode).toBe(200);
+      expect(JSON.parse(repeat.record.responseBody || "{}")).toEqual({ messageId: "message-1" });
+    }
+  });
+
+  it("refuses the same key with a different body", async () => {
+    await claimIdempotencyKey("coinflip.com", "key-1", "hash-a", NOW);
+
+    const repeat = await claimIdempotencyKey("coinflip.com", "key-1", "hash-b", NOW + 1000);
+    expect(repeat.outcome).toBe("mismatch");
+  });
+
+  it("scopes keys to the origin", async () => {
+    await claimIdempotencyKey("coinflip.com", "key-1", "hash-a", NOW);
+
+    const other = await claimIdempotencyKey("chess.com", "key-1", "hash-b", NOW);
+    expect(other.outcome).toBe("claimed");
+  });
+
+  it("lets a released key be used again", async () => {
+    const claim = await claimIdempotencyKey("coinflip.com", "key-1", "hash-a", NOW);
+    if (claim.outcome !== "claimed") {
+      throw new Error("expected the key to be claimed");
+    }
+    await releaseIdempotencyKey(claim.id);
+
+    const retry = await claimIdempotencyKey("coinflip.com", "key-1", "hash-a", NOW + 1000);
+    expect(retry.outcome).toBe("claimed");
+  });
+
+  it("treats a request that never finished as abandoned", async () => {
+    await claimIdempotencyKey("coinflip.com", "key-1", "hash-a", NOW);
+
+    const retry = await claimIdempotencyKey("coinflip.com", "key-1", "hash-a", NOW + 2 * 60 * 1000);
+    expect(retry.outcome).toBe("claimed");
+  });
+
+  it("forgets a completed request after the window", async () => {
+    const claim = await claimIdempotencyKey("coinflip.com", "key-1", "hash-a", NOW);
+    if (claim.outcome !== "claimed") {
+      throw new Error("expected the key to be claimed");
+    }
+    await completeIdempotencyKey(claim.id, 200, "{}");
+
+    const later = await claimIdempotencyKey(
+      "coinflip.com",
+      "key-1",
+      "hash-b",
+      NOW + getIdempotencyWindowMs(),
+    );
+    expect(later.outcome).toBe("claimed");
+  });
+});
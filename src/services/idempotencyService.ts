@@ -0,0 +1,110 @@
+import * as crypto from "crypto";
+import { getRepositories } from "../repositories";
+import { IdempotencyRecord } from "../types";
+
+// Visible ASCII, as sent in the Idempotency-Key header
+export const IDEMPOTENCY_KEY_PATTERN = /^[\x21-\x7e]{1,255}$/;
+
+// How long a claimed key blocks retries before its request counts as abandoned
+const PROCESSING_TIMEOUT_MS = 60 * 1000;
+
+// Retries when another request changed the record between our read and write
+const MAX_WRITE_ATTEMPTS = 5;
+
+export type IdempotencyClaim =
+  | { outcome: "claimed"; id: string }
+  | { outcome: "replay"; record: IdempotencyRecord }
+  | { outcome: "in_progress" }
+  | { outcome: "mismatch" };
+
+/**
+ * How long the result of a request is replayed, from IDEMPOTENCY_WINDOW_SECONDS
+ */
+export function getIdempotencyWindowMs(): number {
+  const seconds = parseInt(process.env.IDEMPOTENCY_WINDOW_SECONDS || "86400", 10);
+  return (Number.isNaN(seconds) ? 86400 : seconds) * 1000;
+}
+
+function recordId(origin: string, key: string): string {
+  // Hashed because keys can contain "/" and are scoped to the origin
+  const hash = crypto.createHash("sha256").update(`${origin}\n${key}`).digest("hex");
+  return hash.substring(0, 32);
+}
+
+/**
+ * Claim an idempotency key for a request from an origin. Returns "claimed"
+ * if the request should go ahead, or the stored result of an earlier request
+ * with the same key and body while its window lasts.
+ */
+export async function claimIdempotencyKey(
+  origin: string,
+  key: string,
+  requestHash: string,
+  now: number = Date.now(),
+): Promise<IdempotencyClaim> {
+  const { idempotencyKeys } = getRepositories();
+  const id = recordId(origin, key);
+  const claim: IdempotencyRecord = {
+    origin,
+    requestHash,
+    status: "processing",
+    lockedUntil: now + PROCESSING_TIMEOUT_MS,
+    createdAt: now,
+    expiresAt: now + getIdempotencyWindowMs(),
+  };
+
+  for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+    const existing = await idempotencyKeys.get(id);
+    if (!existing) {
+      if (await idempotencyKeys.create(id, claim)) {
+        return { outcome: "claimed", id };
+      }
+      continue;
+    }
+
+    const abandoned = existing.status === "processing" && existing.lockedUntil <= now;
+    if (existing.expiresAt <= now || abandoned) {
+      if (
+        await idempotencyKeys.updateIf(
+          id,
+          { status: existing.status, createdAt: existing.createdAt },
+          claim,
+        )
+      ) {
+        return { outcome: "claimed", id };
+      }
+      continue;
+    }
+
+    if (existing.requestHash !== requestHash) {
+      return { outcome: "mismatch" };
+    }
+    return existing.status === "processing"
+      ? { outcome: "in_progress" }
+      : { outcome: "replay", record: existing };
+  }
+
+  throw new Error(`Could not claim idempotency key ${id}: too many concurrent updates`);
+}
+
+/**
+ * Store the response of a claimed request so repeats get the same one
+ */
+export async function completeIdempotencyKey(
+  id: string,
+  statusCode: number,
+  responseBody: string,
+): Promise<void> {
+  await getRepositories().idempotencyKeys.update(id, {
+    status: "completed",
+    statusCode,
+    responseBody,
+  });
+}
+
+/**
+ * Give up a claimed key so the request can be retried with it
+ */
+export async function releaseIdempotencyKey(id: string): Promise<void> {
+  await getRepositories().idempotencyKeys.delete(id);
+}
@@ -0,0 +1,176 @@
+import * as crypto from "crypto";
+import { getRepositories } from "../repositories";
+import {
+  DeviceDeliveryResult,
+  NotificationLog,
+  NotificationStatus,
+  NotificationStatusEvent,
+} from "../types";
+import { emitNotificationStatus } from "./webhookService";
+
+// Higher ranks are further along; status never moves back to a lower rank
+const STATUS_RANK: Record<NotificationStatus, number> = {
+  scheduled: 0,
+  queued: 1,
+  failed: 2,
+  cancelled: 2,
+  sent: 3,
+  delivered: 4,
+  dismissed: 5,
+  clicked: 5,
+};
+
+// Retries when another writer changed the log between our read and write
+const MAX_WRITE_ATTEMPTS = 5;
+
+let generatedAckSecret: string | null = null;
+
+function getAckSecret(): string {
+  if (process.env.ACK_TOKEN_SECRET) {
+    return process.env.ACK_TOKEN_SECRET;
+  }
+  // Every instance must sign with the same secret, and tokens must outlive a restart
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("ACK_TOKEN_SECRET environment variable is required in production");
+  }
+  if (!generatedAckSecret) {
+    console.warn(
+      "⚠️ ACK_TOKEN_SECRET not configured - acknowledgements will not survive a restart",
+    );
+    generatedAckSecret = crypto.randomBytes(32).toString("hex");
+  }
+  return generatedAckSecret;
+}
+
+/**
+ * Check the ack token secret at startup rather than on the first send
+ */
+export function ensureAckSecret(): void {
+  getAckSecret();
+}
+
+/**
+ * Token sent in the push data so the app can acknowledge this message
+ */
+export function createAckToken(messageId: string): string {
+  return crypto
+    .createHmac("sha256", getAckSecret())
+    .update(messageId)
+    .digest("base64url");
+}
+
+/**
+ * Constant-time check of an acknowledgement token
+ */
+export function verifyAckToken(messageId: string, ackToken: string): boolean {
+  const expected = Buffer.from(createAckToken(messageId));
+  const actual = Buffer.from(ackToken);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Whether a log may move from one status to another.
+ * Replaying a dead letter is the one way back from failed to queued.
+ */
+export function canTransition(from: NotificationStatus, to: NotificationStatus): boolean {
+  if (from === "failed" && to === "queued") {
+    return true;
+  }
+  return STATUS_RANK[to] >= STATUS_RANK[from];
+}
+
+/**
+ * Append a status event to a notification log. The event is always kept in
+ * the history; the current status only changes if the transition is allowed.
+ * Returns the updated log, or null if no log exists for the message.
+ */
+export async function recordStatus(
+  messageId: string,
+  status: NotificationStatus,
+  details: Omit<NotificationStatusEvent, "status" | "timestamp"> & {
+    timestamp?: number;
+  } = {},
+): Promise<NotificationLog | null> {
+  const { notifications } = getRepositories();
+  const event: NotificationStatusEvent = {
+    ...details,
+    status,
+    timestamp: details.timestamp ?? Date.now(),
+  };
+
+  for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+    const log = await notifications.get(messageId);
+    if (!log) {
+      return null;
+    }
+
+    const transition = canTransition(log.status, status);
+    const fields: Partial<NotificationLog> = {
+      history: [...(log.history || []), event],
+      updatedAt: Date.now(),
+      version: (log.version ?? 0) + 1,
+      ...(transition && { status }),
+      ...(transition && status === "failed" && event.error && { error: event.error }),
+    };
+
+    // Logs written before versioning have no version to compare against
+    const expected: Partial<NotificationLog> =
+      log.version === undefined ? {} : { version: log.version };
+
+    if (await notifications.updateIf(messageId, expected, fields)) {
+      // Webhooks hear about each status once, when the log moves to it
+      if (transition && log.status !== status) {
+        await emitNotificationStatus(log, event);
+      }
+      return { ...log, ...fields };
+    }
+  }
+
+  throw new Error(`Could not record status ${status} for ${messageId}: too many concurrent updates`);
+}
+
+/**
+ * Create the log for a new message, or record the status on an existing one
+ * (e.g. when a scheduled message is finally sent)
+ */
+export async function recordNotification(
+  log: Omit<NotificationLog, "status" | "history" | "updatedAt" | "version" | "error">,
+  status: NotificationStatus,
+  error?: NotificationStatusEvent["error"],
+): Promise<void> {
+  const existing = await recordStatus(log.messageId, status, error ? { error } : {});
+  if (existing) {
+    return;
+  }
+
+  const now = Date.now();
+  await getRepositories().notifications.set(log.messageId, {
+    ...log,
+    status,
+    ...(error && { error }),
+    history: [{ status, timestamp: now, ...(error && { error }) }],
+    updatedAt: now,
+    version: 0,
+  });
+  await emitNotificationStatus(log, { status, timestamp: now, ...(error && { error }) });
+}
+
+/**
+ * Record how the first attempt at a queued message went: sent once any
+ * device accepted it, failed when every device failed without a retry.
+ * It stays queued while a retry is pending.
+ */
+export async function recordDeliveryOutcome(
+  messageId: string,
+  deliveries: DeviceDeliveryResult[],
+): Promise<void> {
+  if (deliveries.some((delivery) => delivery.success)) {
+    await recordStatus(messageId, "sent");
+    return;
+  }
+  if (deliveries.some((delivery) => delivery.retrying)) {
+    return;
+  }
+  const error = deliveries.find((delivery) => delivery.error)?.error;
+  await recordStatus(messageId, "failed", error ? { error } : {});
+}
@@ -0,0 +1,190 @@
+import { v4 as uuidv4 } from "uuid";
+import {
+  BatchRecipientResult,
+  NotificationPayload,
+  NotificationPriority,
+  NotificationQuotas,
+  UserSubscription,
+} from "../types";
+import { isSubscriptionPaused } from "./consentService";
+import { getActiveDevices } from "./deviceService";
+import { buildPushPayload, deliverToSubscriptions } from "./deliveryService";
+import { recordDeliveryOutcome, recordNotification } from "./notificationLogService";
+import { getQuietHoursDecision } from "./quietHoursService";
+import { consumeQuota, describeQuotaExceeded } from "./quotaService";
+import { scheduleNotification } from "./schedulerService";
+import { TemplateRenderResult } from "./templateService";
+
+export interface Recipient {
+  userKey: string;
+  subscription: UserSubscription | null;
+  // Reuse an existing messageId (e.g. one handed out when scheduling)
+  messageId?: string;
+}
+
+// The same notification for every recipient, or one rendered for each
+// recipient's subscription, such as a template in their language
+export type RecipientNotification =
+  | NotificationPayload
+  | ((subscription: UserSubscription) => TemplateRenderResult);
+
+export interface SendOptions {
+  // Quotas of the sending key, else the server defaults
+  quotas?: NotificationQuotas | undefined;
+  priority?: NotificationPriority | undefined;
+  // Deliver without sound whether or not the user is in quiet hours
+  silent?: boolean | undefined;
+  tag?: string | undefined;
+  // Sending key, kept on notifications deferred by quiet hours
+  keyId?: string | undefined;
+}
+
+/**
+ * Send one notification to many recipients on behalf of an origin.
+ * Each recipient is checked for the origin's permission, quiet hours and
+ * quotas individually and gets its own messageId, and every attempted send
+ * is logged. Recipients in "defer" quiet hours are scheduled for when their
+ * window ends instead.
+ */
+export async function sendToRecipients(
+  origin: string,
+  notification: RecipientNotification,
+  recipients: Recipient[],
+  options: SendOptions = {},
+): Promise<BatchRecipientResult[]> {
+  const results: BatchRecipientResult[] = [];
+  const permitted: Array<{
+    result: BatchRecipientResult;
+    subscription: UserSubscription;
+    notification: NotificationPayload;
+    messageId: string;
+    silent: boolean;
+  }> = [];
+
+  for (const { userKey, subscription, messageId } of recipients) {
+    const result: BatchRecipientResult = { userKey, success: false };
+    results.push(result);
+
+    if (!subscription) {
+      result.error = "not_found";
+      result.message = "No subscription found for this user key";
+    } else if (!subscription.permissions?.[origin]?.granted) {
+      result.error = "permission_denied";
+      result.message =
+        "Origin does not have permission to send notifications to this user";
+    } else if (isSubscriptionPaused(subscription)) {
+      result.error = "paused";
+      result.message = "User has paused notifications";
+    } else if (getActiveDevices(subscription).length === 0) {
+      result.error = "no_active_devices";
+      result.message = "User has no active devices registered for notifications";
+    } else {
+      const content =
+        typeof notification === "function" ? notification(subscription) : { notification };
+      if ("error" in content) {
+        result.error = "template_error";
+        result.message = content.error;
+        continue;
+      }
+
+      const decision = getQuietHoursDecision(subscription, options.priority);
+      const id = messageId || uuidv4();
+      if (decision.action === "defer") {
+        // Quotas are counted when the deferred notification goes out
+        await scheduleNotification({
+          messageId: id,
+          userKey,
+          origin,
+          notification: content.notification,
+          sendAt: decision.until,
+          ...(options.keyId && { keyId: options.keyId }),
+          ...(options.priority && { priority: options.priority }),
+          ...(options.silent && { silent: true }),
+          ...(options.tag && { tag: options.tag }),
+        });
+        result.success = true;
+        result.deferred = true;
+        result.sendAt = decision.until;
+        result.messageId = id;
+      } else {
+        permitted.push({
+          result,
+          subscription,
+          notification: content.notification,
+          messageId: id,
+          silent: decision.silent || !!options.silent,
+        });
+      }
+    }
+  }
+
+  // Quotas are counted last so recipients refused for other reasons use none.
+  // One at a time, since every recipient shares the origin's counters.
+  const eligible: typeof permitted = [];
+  for (const entry of permitted) {
+    const quota = await consumeQuota(origin, entry.result.userKey, options.quotas);
+    if (quota) {
+      entry.result.error = "quota_exceeded";
+      entry.result.message = describeQuotaExceeded(quota);
+      entry.result.quota = quota;
+    } else {
+      eligible.push(entry);
+    }
+  }
+
+  // Logged before sending, so an ack that arrives before the send returns finds it
+  await Promise.all(
+    eligible.map(({ result, notification, messageId }) =>
+      recordNotification(
+        {
+          messageId: messageId,
+          userKey: result.userKey,
+          origin: origin,
+          title: notification.title,
+          body: notification.body,
+          ...(notification.encrypted && { encrypted: true }),
+          timestamp: Date.now(),
+        },
+        "queued",
+      ),
+    ),
+  );
+
+  const deliveries = await deliverToSubscriptions(
+    eligible.map(({ result, subscription, notification, messageId, silent }) => ({
+      messageId,
+      userKey: result.userKey,
+      origin,
+      subscription,
+      payload: buildPushPayload(notification, origin, messageId, {
+        silent,
+        ...(options.tag && { tag: options.tag }),
+      }),
+      encrypted: notification.encrypted,
+    })),
+  );
+
+  await Promise.all(
+    eligible.map(async ({ result, messageId }, index) => {
+      const recipientDeliveries = deliveries[index] || [];
+      result.messageId = messageId;
+      result.deliveries = recipientDeliveries;
+      const sent = recipientDeliveries.some((delivery) => delivery.success);
+      const queued =
+        !sent && recipientDeliveries.some((delivery) => delivery.retrying);
+      result.success = sent || queued;
+
+      if (!result.success) {
+        result.error = "delivery_failed";
+        result.message = "Failed to send notification to any device";
+      }
+      if (queued) {
+        result.queued = true;
+      }
+
+      await recordDeliveryOutcome(messageId, recipientDeliveries);
+    }),
+  );
+
+  return results;
+}
@@ -0,0 +1,124 @@
+import { createFcmError, getPushProviders, MockPushProvider, setPushProviders } from "../push";
+import { getRepositories, MemoryStore, setStore } from "../repositories";
+import { createJob, enqueueAndSend, replayDeadLetter, runQueue } from "./queueService";
+
+const TOKEN = "fcm-token-1";
+
+function newJob() {
+  return createJob({
+    messageId: "message-1",
+    userKey: "user-1",
+    origin: "coinflip.com",
+    deviceId: "device-1",
+    target: { type: "fcm", token: TOKEN },
+    payload: { title: "Your turn", body: "Alice flipped heads" },
+  });
+}
+
+describe("queueService", () => {
+  let provider: MockPushProvider;
+
+  beforeAll(() => {
+    process.env.QUEUE_MAX_ATTEMPTS = "3";
+    process.env.QUEUE_BACKOFF_BASE_MS = "1000";
+  });
+
+  afterAll(() => {
+    delete process.env.QUEUE_MAX_ATTEMPTS;
+    delete process.env.QUEUE_BACKOFF_BASE_MS;
+  });
+
+  beforeEach(() => {
+    setStore(new MemoryStore());
+    setPushProviders([new MockPushProvider()]);
+    provider = getPushProviders()[0] as MockPushProvider;
+  });
+
+  it("removes a job from the queue once it is sent", async () => {
+    const job = newJob();
+
+    const [outcome] = await enqueueAndSend([job]);
+
+    expect(outcome?.status).toBe("sent");
+    expect(provider.sentTo(TOKEN)).toHaveLength(1);
+    expect(await getRepositories().deliveryQueue.get(job.jobId)).toBeNull();
+  });
+
+  it("schedules a retry with backoff after a transient failure", async () => {
+    provider.failNext(createFcmError("messaging/server-unavailable"));
+    const job = newJob();
+
+    const [outcome] = await enqueueAndSend([job]);
+
+    expect(outcome?.status).toBe("retrying");
+    const queued = await getRepositories().deliveryQueue.get(job.jobId);
+    expect(queued).toMatchObject({ status: "pending", attempts: 1 });
+    expect(queued?.lastError?.code).toBe("messaging/server-unavailable");
+    // 1000ms base with ±20% jitter
+    expect(queued?.nextAttemptAt).toBeGreaterThanOrEqual(job.createdAt + 800);
+  });
+
+  it("delivers a queued retry when it falls due", async () => {
+    provider.failNext(createFcmError("messaging/server-unavailable"));
+    const job = newJob();
+    await enqueueAndSend([job]);
+
+    expect(await runQueue(Date.now())).toBe(0);
+    expect(await runQueue(Date.now() + 60 * 1000)).toBe(1);
+
+    expect(provider.sentTo(TOKEN)).toHaveLength(1);
+    expect(await getRepositories().deliveryQueue.get(job.jobId)).toBeNull();
+  });
+
+  it("dead-letters a job after its last attempt", async () => {
+    provider.failFor(TOKEN, createFcmError("messaging/server-unavailable"));
+    const job = newJob();
+    const { deliveryQueue, deadLetters } = getRepositories();
+
+    await enqueueAndSend([job]);
+    await runQueue(Date.now() + 60 * 1000);
+    await runQueue(Date.now() + 120 * 1000);
+
+    expect(await deliveryQueue.get(job.jobId)).toBeNull();
+    const deadLetter = await deadLetters.get(job.jobId);
+    expect(deadLetter).toMatchObject({ attempts: 3, messageId: "message-1" });
+    expect(deadLetter?.lastError?.code).toBe("messaging/server-unavailable");
+  });
+
+  it("does not retry a token the provider says is gone", async () => {
+    provider.failFor(TOKEN, createFcmError("messaging/registration-token-not-registered"));
+    const job = newJob();
+
+    const [outcome] = await enqueueAndSend([job]);
+
+    expect(outcome?.status).toBe("failed");
+    expect(await getRepositories().deliveryQueue.get(job.jobId)).toBeNull();
+    expect(await getRepositories().deadLetters.get(job.jobId)).toBeNull();
+  });
+
+  it("replays a dead letter with a fresh set of attempts", async () => {
+    provider.failFor(TOKEN, createFcmError("messaging/server-unavailable"));
+    const job = newJob();
+    await enqueueAndSend([job]);
+    await runQueue(Date.now() + 60 * 1000);
+    await runQueue(Date.now() + 120 * 1000);
+    provider.reset();
+
+    const replayed = await replayDeadLetter(job.jobId);
+    expect(replayed).toMatchObject({ status: "pending", attempts: 0 });
+    expect(await getRepositories().deadLetters.get(job.jobId)).toBeNull();
+
+    expect(await runQueue()).toBe(1);
+    expect(provider.sentTo(TOKEN)).toHaveLength(1);
+  });
+
+  it("reclaims a job whose worker stopped mid-send", async () => {
+    const job = newJob();
+    await getRepositories().deliveryQueue.set(job.jobId, job);
+
+    expect(await runQueue(job.createdAt)).toBe(0);
+    expect(await runQueue(job.createdAt + 2 * 60 * 1000)).toBe(1);
+
+    expect(provider.sentTo(TOKEN)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,299 @@
+import { v4 as uuidv4 } from "uuid";
+import { getRepositories } from "../repositories";
+import {
+  getPushErrorCode,
+  isInvalidTokenCode,
+  isRetryableCode,
+  sendNotificationBatch,
+  SendNotificationResult,
+} from "../push";
+import { DeadLetter, DeliveryJob } from "../types";
+import { expireDevices } from "./expiryService";
+import { recordStatus } from "./notificationLogService";
+
+export interface QueueConfig {
+  maxAttempts: number;
+  backoffBaseMs: number;
+  backoffMaxMs: number;
+  // How long a worker may hold a job before another may reclaim it
+  lockMs: number;
+}
+
+export type JobOutcome =
+  | { status: "sent"; providerMessageId: string }
+  | { status: "retrying"; nextAttemptAt: number; error: JobError }
+  | { status: "failed"; error: JobError }
+  | { status: "dead"; error: JobError };
+
+type JobError = { code: string; message: string };
+
+// Due jobs processed per worker tick
+const WORKER_BATCH_SIZE = 100;
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+/**
+ * Retry settings from QUEUE_* environment variables
+ */
+export function getQueueConfig(): QueueConfig {
+  return {
+    maxAttempts: parseInt(process.env.QUEUE_MAX_ATTEMPTS || "5", 10),
+    backoffBaseMs: parseInt(process.env.QUEUE_BACKOFF_BASE_MS || "2000", 10),
+    backoffMaxMs: parseInt(process.env.QUEUE_BACKOFF_MAX_MS || "600000", 10),
+    lockMs: 60 * 1000,
+  };
+}
+
+/**
+ * Exponential backoff with ±20% jitter after the given number of attempts
+ */
+export function getBackoffDelay(
+  attempts: number,
+  config: QueueConfig = getQueueConfig(),
+): number {
+  const delay = Math.min(
+    config.backoffBaseMs * 2 ** Math.max(attempts - 1, 0),
+    config.backoffMaxMs,
+  );
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
+
+/**
+ * Build a job that is already claimed by the caller, for immediate sending
+ */
+export function createJob(
+  fields: Pick<
+    DeliveryJob,
+    "messageId" | "userKey" | "origin" | "deviceId" | "target" | "payload"
+  >,
+): DeliveryJob {
+  const now = Date.now();
+  const config = getQueueConfig();
+  return {
+    ...fields,
+    jobId: uuidv4(),
+    status: "processing",
+    attempts: 0,
+    maxAttempts: config.maxAttempts,
+    nextAttemptAt: now,
+    lockedUntil: now + config.lockMs,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Record the outcome of one send attempt against its job
+ */
+async function settleJob(
+  job: DeliveryJob,
+  outcome: PromiseSettledResult<SendNotificationResult>,
+): Promise<JobOutcome> {
+  const { deliveryQueue, deadLetters } = getRepositories();
+  const attempts = job.attempts + 1;
+  const now = Date.now();
+
+  if (outcome.status === "fulfilled") {
+    await deliveryQueue.delete(job.jobId);
+    // Only retries need the log updated; first attempts are logged by the caller
+    if (job.lastError) {
+      await recordStatus(job.messageId, "sent", { deviceId: job.deviceId });
+      console.log(`🔁 Delivery job ${job.jobId} succeeded on attempt ${attempts}`);
+    }
+    return { status: "sent", providerMessageId: outcome.value.messageId };
+  }
+
+  const error = {
+    code: getPushErrorCode(outcome.reason),
+    message: (outcome.reason as Error)?.message || "Unknown error",
+  };
+
+  if (!isRetryableCode(error.code)) {
+    await deliveryQueue.delete(job.jobId);
+    // Stop sending to tokens and endpoints the provider says are gone for good
+    if (isInvalidTokenCode(error.code)) {
+      await expireDevices(job.userKey, [job.deviceId], "invalid_token", error.code);
+    }
+    if (job.lastError) {
+      await recordStatus(job.messageId, "failed", { deviceId: job.deviceId, error });
+    }
+    return { status: "failed", error };
+  }
+
+  if (attempts < job.maxAttempts) {
+    const nextAttemptAt = now + getBackoffDelay(attempts);
+    await deliveryQueue.update(job.jobId, {
+      status: "pending",
+      attempts,
+      nextAttemptAt,
+      lastError: error,
+      updatedAt: now,
+    });
+    console.warn(
+      `⏳ Delivery job ${job.jobId} failed (${error.code}), retry ${attempts}/${job.maxAttempts - 1} at ${new Date(nextAttemptAt).toISOString()}`,
+    );
+    return { status: "retrying", nextAttemptAt, error };
+  }
+
+  const { status, nextAttemptAt, lockedUntil, ...rest } = job;
+  const deadLetter: DeadLetter = {
+    ...rest,
+    attempts,
+    lastError: error,
+    updatedAt: now,
+    deadAt: now,
+  };
+  await deadLetters.set(job.jobId, deadLetter);
+  await deliveryQueue.delete(job.jobId);
+  await recordStatus(job.messageId, "failed", { deviceId: job.deviceId, error });
+  console.error(
+    `💀 Delivery job ${job.jobId} dead-lettered after ${attempts} attempts (${error.code})`,
+  );
+  return { status: "dead", error };
+}
+
+/**
+ * Send jobs the caller has claimed and settle each one.
+ * Outcomes are in the same order as the input.
+ */
+export async function processJobs(jobs: DeliveryJob[]): Promise<JobOutcome[]> {
+  const sent = await sendNotificationBatch(
+    jobs.map(({ target, payload }) => ({ target, payload })),
+  );
+  return Promise.all(
+    jobs.map((job, index) =>
+      settleJob(
+        job,
+        sent[index] ?? {
+          status: "rejected",
+          reason: new Error("No send result"),
+        },
+      ),
+    ),
+  );
+}
+
+/**
+ * Persist jobs to the queue, then make the first attempt immediately
+ */
+export async function enqueueAndSend(jobs: DeliveryJob[]): Promise<JobOutcome[]> {
+  const { deliveryQueue } = getRepositories();
+  await Promise.all(jobs.map((job) => deliveryQueue.set(job.jobId, job)));
+  return processJobs(jobs);
+}
+
+/**
+ * Release jobs whose worker died mid-send, then process due retries
+ */
+export async function runQueue(now: number = Date.now()): Promise<number> {
+  const { deliveryQueue } = getRepositories();
+  const config = getQueueConfig();
+
+  const stale = await deliveryQueue.find([
+    { field: "status", op: "==", value: "processing" },
+    { field: "lockedUntil", op: "<=", value: now },
+  ]);
+  for (const { data } of stale) {
+    await deliveryQueue.updateIf(
+      data.jobId,
+      { status: "processing", ...(data.lockedUntil && { lockedUntil: data.lockedUntil }) },
+      { status: "pending", updatedAt: now },
+    );
+  }
+
+  const due = await deliveryQueue.find(
+    [
+      { field: "status", op: "==", value: "pending" },
+      { field: "nextAttemptAt", op: "<=", value: now },
+    ],
+    { orderBy: { field: "nextAttemptAt" }, limit: WORKER_BATCH_SIZE },
+  );
+
+  const claimed: DeliveryJob[] = [];
+  for (const { data } of due) {
+    const lockedUntil = now + config.lockMs;
+    const won = await deliveryQueue.updateIf(
+      data.jobId,
+      { status: "pending" },
+      { status: "processing", lockedUntil, updatedAt: now },
+    );
+    if (won) {
+      claimed.push({ ...data, status: "processing", lockedUntil });
+    }
+  }
+
+  if (claimed.length > 0) {
+    await processJobs(claimed);
+  }
+  return claimed.length;
+}
+
+/**
+ * Put a dead-lettered job back on the queue with a fresh set of attempts
+ */
+export async function replayDeadLetter(jobId: string): Promise<DeliveryJob | null> {
+  const { deliveryQueue, deadLetters } = getRepositories();
+
+  const deadLetter = await deadLetters.get(jobId);
+  if (!deadLetter) {
+    return null;
+  }
+
+  const now = Date.now();
+  const { deadAt, ...rest } = deadLetter;
+  const job: DeliveryJob = {
+    ...rest,
+    status: "pending",
+    attempts: 0,
+    maxAttempts: getQueueConfig().maxAttempts,
+    nextAttemptAt: now,
+    updatedAt: now,
+  };
+
+  await deliveryQueue.set(jobId, job);
+  await deadLetters.delete(jobId);
+  await recordStatus(job.messageId, "queued", { deviceId: job.deviceId });
+
+  console.log(`🔁 Dead letter ${jobId} replayed`);
+  return job;
+}
+
+/**
+ * Start processing queued retries in the background
+ */
+export function startQueueWorker(
+  intervalMs: number = parseInt(process.env.QUEUE_POLL_INTERVAL_MS || "5000", 10),
+): void {
+  if (timer) {
+    return;
+  }
+
+  timer = setInterval(async () => {
+    // Skip this tick if the previous one is still processing
+    if (running) {
+      return;
+    }
+    running = true;
+    try {
+      await runQueue();
+    } catch (error) {
+      console.error("❌ Queue worker tick failed:", error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+  timer.unref();
+
+  console.log(`📬 Delivery queue worker started (every ${intervalMs}ms)`);
+}
+
+/**
+ * Stop the background queue worker
+ */
+export function stopQueueWorker(): void {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
@@ -0,0 +1,102 @@
+import { QuietHours } from "../types";
+import {
+  getQuietHoursDecision,
+  getQuietHoursEnd,
+  isValidTimezone,
+} from "./quietHoursService";
+
+const OVERNIGHT_DEFER: QuietHours = { start: "22:00", end: "07:00", mode: "defer" };
+const OVERNIGHT_SILENT: QuietHours = { start: "22:00", end: "07:00", mode: "silent" };
+
+describe("quietHoursService", () => {
+  it("knows IANA timezone names", () => {
+    expect(isValidTimezone("Europe/Berlin")).toBe(true);
+    expect(isValidTimezone("Mars/Olympus_Mons")).toBe(false);
+  });
+
+  describe("getQuietHoursEnd", () => {
+    it("is null without quiet hours or outside the window", () => {
+      expect(getQuietHoursEnd({}, Date.UTC(2026, 0, 15, 23, 30))).toBeNull();
+      expect(
+        getQuietHoursEnd({ quietHours: OVERNIGHT_DEFER }, Date.UTC(2026, 0, 15, 12, 0)),
+      ).toBeNull();
+    });
+
+    it("ends the next morning in a window that wraps past midnight", () => {
+      expect(
+        getQuietHoursEnd({ quietHours: OVERNIGHT_DEFER }, Date.UTC(2026, 0, 15, 23, 30)),
+      ).toBe(Date.UTC(2026, 0, 16, 7, 0));
+      expect(
+        getQuietHoursEnd({ quietHours: OVERNIGHT_DEFER }, Date.UTC(2026, 0, 16, 6, 59)),
+      ).toBe(Date.UTC(2026, 0, 16, 7, 0));
+      expect(
+        getQuietHoursEnd({ quietHours: OVERNIGHT_DEFER }, Date.UTC(2026, 0, 16, 7, 0)),
+      ).toBeNull();
+    });
+
+    it("uses the subscription's timezone", () => {
+      // 21:30 UTC is 22:30 in Berlin in January, so quiet hours end at 06:00 UTC
+      expect(
+        getQuietHoursEnd(
+          { quietHours: OVERNIGHT_DEFER, timezone: "Europe/Berlin" },
+          Date.UTC(2026, 0, 15, 21, 30),
+        ),
+      ).toBe(Date.UTC(2026, 0, 16, 6, 0));
+    });
+
+    it("treats an empty window as no quiet hours", () => {
+      expect(
+        getQuietHoursEnd(
+          { quietHours: { start: "22:00", end: "22:00", mode: "defer" } },
+          Date.UTC(2026, 0, 15, 22, 0),
+        ),
+      ).toBeNull();
+    });
+  });
+
+  describe("getQuietHoursDecision", () => {
+    const night = Date.UTC(2026, 0, 15, 23, 30);
+
+    it("holds non-urgent notifications in a defer window", () => {
+      expect(getQuietHoursDecision({ quietHours: OVERNIGHT_DEFER }, "normal", night)).toEqual({
+        action: "defer",
+        until: Date.UTC(2026, 0, 16, 7, 0),
+      });
+    });
+
+    it("sends silently in a silent window", () => {
+      expect(getQuietHoursDecision({ quietHours: OVERNIGHT_SILENT }, "normal", night)).toEqual({
+        action: "send",
+        silent: true,
+      });
+    });
+
+    it("always sends urgent notifications as usual", () => {
+      expect(getQuietHoursDecision({ quietHours: OVERNIGHT_DEFER }, "urgent", night)).toEqual({
+        action: "send",
+        silent: false,
+      });
+      expect(getQuietHoursDecision({ doNotDisturb: true }, "urgent", night)).toEqual({
+        action: "send",
+        silent: false,
+      });
+    });
+
+    it("sends silently while do-not-disturb is on", () => {
+      expect(getQuietHoursDecision({ doNotDisturb: true }, "normal", night)).toEqual({
+        action: "send",
+        silent: true,
+      });
+    });
+
+    it("sends as usual outside quiet hours", () => {
+      expect(
+        getQuietHoursDecision(
+          { quietHours: OVERNIGHT_DEFER },
+          "normal",
+          Date.UTC(2026, 0, 15, 12, 0),
+        ),
+      ).toEqual({ action: "send", silent: false });
+    });
+  });
+});
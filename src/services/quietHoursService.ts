@@ -0,0 +1,93 @@
+import { NotificationPriority, UserSubscription } from "../types";
+
+// Local time of day as "HH:MM", 24-hour clock
+export const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const MINUTES_PER_DAY = 24 * 60;
+const MINUTE_MS = 60 * 1000;
+
+export type QuietHoursDecision =
+  | { action: "send"; silent: boolean }
+  | { action: "defer"; until: number };
+
+/**
+ * Whether the runtime knows this IANA timezone name
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":");
+  return parseInt(hours || "0", 10) * 60 + parseInt(minutes || "0", 10);
+}
+
+// Minutes since local midnight in the given timezone
+function getLocalMinutes(now: number, timezone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(new Date(now));
+  const part = (type: string) =>
+    parseInt(parts.find((p) => p.type === type)?.value || "0", 10);
+  return part("hour") * 60 + part("minute");
+}
+
+/**
+ * When the quiet hours window the user is currently in ends, or null when
+ * they are outside it. Subscriptions without a timezone use UTC.
+ */
+export function getQuietHoursEnd(
+  subscription: Pick<UserSubscription, "quietHours" | "timezone">,
+  now: number = Date.now(),
+): number | null {
+  const quietHours = subscription.quietHours;
+  if (!quietHours) {
+    return null;
+  }
+
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  if (start === end) {
+    return null;
+  }
+
+  const local = getLocalMinutes(now, subscription.timezone || "UTC");
+  const inWindow =
+    start < end ? local >= start && local < end : local >= start || local < end;
+  if (!inWindow) {
+    return null;
+  }
+
+  const minutesLeft = (end - local + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  return now - (now % MINUTE_MS) + minutesLeft * MINUTE_MS;
+}
+
+/**
+ * How a notification should reach the user right now: sent as usual, sent
+ * silently because of do-not-disturb or "silent" quiet hours, or held until
+ * "defer" quiet hours end. Urgent notifications always go out as usual.
+ */
+export function getQuietHoursDecision(
+  subscription: Pick<UserSubscription, "quietHours" | "timezone" | "doNotDisturb">,
+  priority: NotificationPriority = "normal",
+  now: number = Date.now(),
+): QuietHoursDecision {
+  if (priority === "urgent") {
+    return { action: "send", silent: false };
+  }
+
+  const until = getQuietHoursEnd(subscription, now);
+  if (until !== null && subscription.quietHours?.mode === "defer") {
+    return { action: "defer", until };
+  }
+
+  return { action: "send", silent: until !== null || !!subscription.doNotDisturb };
+}
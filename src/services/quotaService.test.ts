@@ -0,0 +1,86 @@
+import { MemoryStore, setStore } from "../repositories";
+import { QuotaExceeded } from "../types";
+import { consumeQuota, describeQuotaExceeded, resolveQuotas } from "./quotaService";
+
+const HOUR_MS = 60 * 60 * 1000;
+// 10:15 UTC, well inside one hourly and one daily window
+const NOW = Date.UTC(2026, 0, 15, 10, 15);
+
+describe("quotaService", () => {
+  beforeEach(() => {
+    setStore(new MemoryStore());
+  });
+
+  it("uses the key's own quotas over the defaults", () => {
+    const quotas = resolveQuotas({ user: { hourly: 3 } });
+    expect(quotas.user.hourly).toBe(3);
+    expect(quotas.user.daily).toBe(100);
+    expect(quotas.origin.hourly).toBe(5000);
+  });
+
+  it("stops a user's notifications at the hourly quota", async () => {
+    const quotas = { user: { hourly: 2 } };
+
+    expect(await consumeQuota("coinflip.com", "user-1", quotas, "notification", NOW)).toBeNull();
+    expect(await consumeQuota("coinflip.com", "user-1", quotas, "notification", NOW)).toBeNull();
+    const exceeded = await consumeQuota("coinflip.com", "user-1", quotas, "notification", NOW);
+
+    expect(exceeded).toEqual({
+      kind: "notification",
+      scope: "user",
+      window: "hour",
+      limit: 2,
+      resetAt: Date.UTC(2026, 0, 15, 11, 0),
+    });
+    expect(describeQuotaExceeded(exceeded as QuotaExceeded)).toBe(
+      "Hourly quota of 2 notifications to this user reached",
+    );
+  });
+
+  it("counts each user and each window separately", async () => {
+    const quotas = { user: { hourly: 1 } };
+
+    expect(await consumeQuota("coinflip.com", "user-1", quotas, "notification", NOW)).toBeNull();
+    expect(await consumeQuota("coinflip.com", "user-2", quotas, "notification", NOW)).toBeNull();
+    expect(await consumeQuota("chess.com", "user-1", quotas, "notification", NOW)).toBeNull();
+    expect(
+      await consumeQuota("coinflip.com", "user-1", quotas, "notification", NOW + HOUR_MS),
+    ).toBeNull();
+  });
+
+  it("does not count a rejected notification against other quotas", async () => {
+    const quotas = { user: { hourly: 1 }, origin: { hourly: 2 } };
+
+    await consumeQuota("coinflip.com", "user-1", quotas, "notification", NOW);
+    expect(
+      await consumeQuota("coinflip.com", "user-1", quotas, "notification", NOW),
+    ).toMatchObject({ scope: "user" });
+
+    // The rejected send above did not use up the origin's second notification
+    expect(await consumeQuota("coinflip.com", "user-2", quotas, "notification", NOW)).toBeNull();
+    expect(
+      await consumeQuota("coinflip.com", "user-3", quotas, "notification", NOW),
+    ).toMatchObject({ scope: "origin", window: "hour", limit: 2 });
+  });
+
+  it("counts data-only pushes apart from notifications", async () => {
+    const quotas = { user: { hourly: 1 }, data: { user: { hourly: 1 } } };
+
+    expect(await consumeQuota("coinflip.com", "user-1", quotas, "notification", NOW)).toBeNull();
+    expect(await consumeQuota("coinflip.com", "user-1", quotas, "data", NOW)).toBeNull();
+    const exceeded = await consumeQuota("coinflip.com", "user-1", quotas, "data", NOW);
+
+    expect(exceeded).toMatchObject({ kind: "data", scope: "user" });
+    expect(describeQuotaExceeded(exceeded as QuotaExceeded)).toBe(
+      "Hourly quota of 1 data messages to this user reached",
+    );
+  });
+
+  it("skips quotas set to zero", async () => {
+    const quotas = { user: { hourly: 0, daily: 0 } };
+
+    for (let i = 0; i < 150; i++) {
+      expect(await consumeQuota("coinflip.com", "user-1", quotas, "notification", NOW)).toBeNull();
+    }
+  });
+});
@@ -0,0 +1,208 @@
+import * as crypto from "crypto";
+import { getRepositories } from "../repositories";
+import {
+  NotificationQuota,
+  NotificationQuotas,
+  QuotaCounter,
+  QuotaExceeded,
+  QuotaKind,
+  QuotaScope,
+  QuotaWindow,
+} from "../types";
+
+const WINDOW_MS: Record<QuotaWindow, number> = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+};
+
+type ResolvedQuotas = Record<QuotaScope, Required<NotificationQuota>>;
+
+// Retries when another send changed a counter between our read and write;
+// higher than elsewhere because an origin's counters are shared by all its sends
+const MAX_WRITE_ATTEMPTS = 10;
+
+function envLimit(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || "", 10);
+  return Number.isNaN(value) ? fallback : value;
+}
+
+/**
+ * Server-wide quotas from QUOTA_* environment variables, or QUOTA_DATA_* for
+ * data-only pushes
+ */
+export function getDefaultQuotas(kind: QuotaKind = "notification"): ResolvedQuotas {
+  if (kind === "data") {
+    return {
+      origin: {
+        hourly: envLimit("QUOTA_DATA_ORIGIN_HOURLY", 20000),
+        daily: envLimit("QUOTA_DATA_ORIGIN_DAILY", 200000),
+      },
+      user: {
+        hourly: envLimit("QUOTA_DATA_USER_HOURLY", 30),
+        daily: envLimit("QUOTA_DATA_USER_DAILY", 200),
+      },
+    };
+  }
+  return {
+    origin: {
+      hourly: envLimit("QUOTA_ORIGIN_HOURLY", 5000),
+      daily: envLimit("QUOTA_ORIGIN_DAILY", 50000),
+    },
+    user: {
+      hourly: envLimit("QUOTA_USER_HOURLY", 20),
+      daily: envLimit("QUOTA_USER_DAILY", 100),
+    },
+  };
+}
+
+/**
+ * The quotas that apply to a key: its own values, else the defaults
+ */
+export function resolveQuotas(
+  overrides: NotificationQuotas = {},
+  kind: QuotaKind = "notification",
+): ResolvedQuotas {
+  const defaults = getDefaultQuotas(kind);
+  const own = kind === "data" ? overrides.data || {} : overrides;
+  return {
+    origin: { ...defaults.origin, ...own.origin },
+    user: { ...defaults.user, ...own.user },
+  };
+}
+
+function counterId(
+  kind: QuotaKind,
+  scope: QuotaScope,
+  window: QuotaWindow,
+  windowStart: number,
+  origin: string,
+  userKey: string,
+): string {
+  // Hashed because origins and user keys can contain "/"
+  const subject = scope === "origin" ? origin : `${origin}\n${userKey}`;
+  const hash = crypto.createHash("sha256").update(subject).digest("hex");
+  const prefix = kind === "data" ? "data:" : "";
+  return `${prefix}${scope}:${window}:${windowStart}:${hash.substring(0, 32)}`;
+}
+
+/**
+ * Count one notification against a counter unless it is already at the limit
+ */
+async function tryIncrement(
+  id: string,
+  counter: Omit<QuotaCounter, "count">,
+  limit: number,
+): Promise<boolean> {
+  const { quotaCounters } = getRepositories();
+
+  for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+    const existing = await quotaCounters.get(id);
+    if (!existing) {
+      if (await quotaCounters.create(id, { ...counter, count: 1 })) {
+        return true;
+      }
+      continue;
+    }
+    if (existing.count >= limit) {
+      return false;
+    }
+    if (
+      await quotaCounters.updateIf(
+        id,
+        { count: existing.count },
+        { count: existing.count + 1 },
+      )
+    ) {
+      return true;
+    }
+  }
+
+  throw new Error(`Could not update quota counter ${id}: too many concurrent updates`);
+}
+
+/**
+ * Give back a notification counted by tryIncrement
+ */
+async function release(id: string): Promise<void> {
+  const { quotaCounters } = getRepositories();
+
+  for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+    const existing = await quotaCounters.get(id);
+    if (!existing || existing.count === 0) {
+      return;
+    }
+    if (
+      await quotaCounters.updateIf(
+        id,
+        { count: existing.count },
+        { count: existing.count - 1 },
+      )
+    ) {
+      return;
+    }
+  }
+}
+
+/**
+ * Count one notification (or data-only push) from an origin to a user against
+ * every quota of that kind. Returns null if it may be sent, or the first quota
+ * it would exceed, in which case nothing is counted.
+ */
+export async function consumeQuota(
+  origin: string,
+  userKey: string,
+  overrides?: NotificationQuotas,
+  kind: QuotaKind = "notification",
+  now: number = Date.now(),
+): Promise<QuotaExceeded | null> {
+  const quotas = resolveQuotas(overrides, kind);
+  const checks: Array<{ scope: QuotaScope; window: QuotaWindow; limit: number }> = [
+    { scope: "user", window: "hour", limit: quotas.user.hourly },
+    { scope: "user", window: "day", limit: quotas.user.daily },
+    { scope: "origin", window: "hour", limit: quotas.origin.hourly },
+    { scope: "origin", window: "day", limit: quotas.origin.daily },
+  ];
+
+  const counted: string[] = [];
+  for (const { scope, window, limit } of checks) {
+    if (limit <= 0) {
+      continue;
+    }
+
+    const windowStart = Math.floor(now / WINDOW_MS[window]) * WINDOW_MS[window];
+    const resetAt = windowStart + WINDOW_MS[window];
+    const id = counterId(kind, scope, window, windowStart, origin, userKey);
+    const allowed = await tryIncrement(
+      id,
+      {
+        kind,
+        scope,
+        window,
+        origin,
+        ...(scope === "user" && { userKey }),
+        windowStart,
+        expiresAt: resetAt,
+      },
+      limit,
+    );
+
+    if (!allowed) {
+      await Promise.all(counted.map(release));
+      return { kind, scope, window, limit, resetAt };
+    }
+    counted.push(id);
+  }
+
+  return null;
+}
+
+/**
+ * Human-readable description of a quota that was hit
+ */
+export function describeQuotaExceeded(exceeded: QuotaExceeded): string {
+  const period = exceeded.window === "hour" ? "Hourly" : "Daily";
+  const what = exceeded.kind === "data" ? "data messages" : "notifications";
+  return exceeded.scope === "user"
+    ? `${period} quota of ${exceeded.limit} ${what} to this user reached`
+    : `${period} quota of ${exceeded.limit} ${what} for this origin reached`;
+}
@@ -0,0 +1,180 @@
+import * as crypto from "crypto";
+import { getRepositories } from "../repositories";
+
+// Headers a signed request carries instead of a bearer key
+export const SIGNATURE_HEADERS = {
+  keyId: "x-signature-key-id",
+  timestamp: "x-signature-timestamp",
+  nonce: "x-signature-nonce",
+  digest: "x-signature-digest",
+  signature: "x-signature",
+} as const;
+
+export interface SignedRequestParts {
+  method: string;
+  path: string;
+  timestamp: string;
+  nonce: string;
+  digest: string;
+}
+
+export type SignatureError =
+  | "not_configured"
+  | "malformed"
+  | "stale_timestamp"
+  | "digest_mismatch"
+  | "bad_signature"
+  | "replayed_nonce";
+
+// Nonces must be long enough that clients cannot collide by accident
+const MIN_NONCE_LENGTH = 16;
+
+// Retries when another request changed the nonce between our read and write
+const MAX_WRITE_ATTEMPTS = 5;
+
+/**
+ * How far a request timestamp may drift from server time
+ */
+export function getMaxClockSkewMs(): number {
+  return parseInt(process.env.SIGNATURE_MAX_SKEW_MS || "300000", 10);
+}
+
+/**
+ * Whether request signing is available (REQUEST_SIGNING_SECRET is set)
+ */
+export function isRequestSigningConfigured(): boolean {
+  return Boolean(process.env.REQUEST_SIGNING_SECRET);
+}
+
+/**
+ * Signing secret for a key. It is derived from REQUEST_SIGNING_SECRET rather
+ * than stored, and bumping the version issues a new one.
+ */
+export function deriveSigningSecret(keyId: string, version: number): string {
+  const master = process.env.REQUEST_SIGNING_SECRET;
+  if (!master) {
+    throw new Error("REQUEST_SIGNING_SECRET is not configured");
+  }
+  return crypto
+    .createHmac("sha256", master)
+    .update(`${keyId}:${version}`)
+    .digest("base64url");
+}
+
+/**
+ * SHA-256 of the raw request body, as sent in X-Signature-Digest
+ */
+export function computeBodyDigest(body: Buffer | undefined): string {
+  return `sha-256=${crypto
+    .createHash("sha256")
+    .update(body || Buffer.alloc(0))
+    .digest("base64")}`;
+}
+
+/**
+ * The string both sides sign: method, path with query, timestamp, nonce and body digest
+ */
+export function buildStringToSign(parts: SignedRequestParts): string {
+  return [
+    parts.method.toUpperCase(),
+    parts.path,
+    parts.timestamp,
+    parts.nonce,
+    parts.digest,
+  ].join("\n");
+}
+
+export function signRequest(secret: string, parts: SignedRequestParts): string {
+  return crypto
+    .createHmac("sha256", secret)
+    .update(buildStringToSign(parts))
+    .digest("base64");
+}
+
+function nonceId(keyId: string, nonce: string): string {
+  // Hashed because nonces are client-chosen and may contain "/"
+  const hash = crypto.createHash("sha256").update(`${keyId}\n${nonce}`).digest("hex");
+  return hash.substring(0, 32);
+}
+
+/**
+ * Record a nonce in the shared store for as long as its timestamp is
+ * acceptable, so a captured request cannot be replayed on any instance.
+ * Returns false if the nonce was already used and has not expired.
+ */
+async function storeNonce(
+  keyId: string,
+  nonce: string,
+  expiresAt: number,
+  now: number,
+): Promise<boolean> {
+  const { requestNonces } = getRepositories();
+  const id = nonceId(keyId, nonce);
+
+  for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+    if (await requestNonces.create(id, { keyId, expiresAt })) {
+      return true;
+    }
+
+    const existing = await requestNonces.get(id);
+    if (!existing) {
+      continue;
+    }
+    if (existing.expiresAt > now) {
+      return false;
+    }
+
+    // Expired, but not yet removed by the TTL policy
+    if (await requestNonces.updateIf(id, { expiresAt: existing.expiresAt }, { expiresAt })) {
+      return true;
+    }
+  }
+
+  throw new Error(`Could not store nonce for key ${keyId}: too many concurrent updates`);
+}
+
+/**
+ * Check a signed request against the key's signing secret. Returns null when
+ * the request is authentic and fresh, or the reason it is not.
+ */
+export async function verifySignedRequest(
+  parts: SignedRequestParts,
+  signature: string,
+  body: Buffer | undefined,
+  keyId: string,
+  secretVersion: number,
+  now: number = Date.now(),
+): Promise<SignatureError | null> {
+  if (!isRequestSigningConfigured()) {
+    return "not_configured";
+  }
+
+  const timestamp = Number(parts.timestamp);
+  if (!Number.isInteger(timestamp) || parts.nonce.length < MIN_NONCE_LENGTH) {
+    return "malformed";
+  }
+
+  const maxSkew = getMaxClockSkewMs();
+  if (Math.abs(now - timestamp) > maxSkew) {
+    return "stale_timestamp";
+  }
+
+  if (parts.digest !== computeBodyDigest(body)) {
+    return "digest_mismatch";
+  }
+
+  const expected = Buffer.from(
+    signRequest(deriveSigningSecret(keyId, secretVersion), parts),
+  );
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return "bad_signature";
+  }
+
+  // Only remember nonces of genuine requests, so forgeries cannot burn them
+  if (!(await storeNonce(keyId, parts.nonce, timestamp + maxSkew, now))) {
+    return "replayed_nonce";
+  }
+
+  return null;
+}
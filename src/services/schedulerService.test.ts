@@ -0,0 +1,110 @@
+import { getPushProviders, MockPushProvider, setPushProviders } from "../push";
+import { getRepositories, MemoryStore, setStore } from "../repositories";
+import {
+  cancelScheduledNotification,
+  resolveSendAt,
+  runDueNotifications,
+  scheduleNotification,
+} from "./schedulerService";
+
+const TOKEN = "fcm-token-1";
+const NOW = Date.UTC(2026, 0, 15, 10, 0);
+
+async function schedule(sendAt = NOW + 60 * 1000) {
+  return scheduleNotification({
+    messageId: "message-1",
+    userKey: "user-1",
+    origin: "coinflip.com",
+    notification: { title: "Your turn", body: "Alice flipped heads" },
+    sendAt,
+  });
+}
+
+describe("schedulerService", () => {
+  let provider: MockPushProvider;
+
+  beforeEach(async () => {
+    setStore(new MemoryStore());
+    setPushProviders([new MockPushProvider()]);
+    provider = getPushProviders()[0] as MockPushProvider;
+
+    await getRepositories().subscriptions.set("user-1", {
+      userKey: "user-1",
+      origin: "coinflip.com",
+      userId: "user-1",
+      devices: {
+        phone: { deviceId: "phone", fcmToken: TOKEN, active: true, createdAt: NOW, updatedAt: NOW },
+      },
+      permissions: { "coinflip.com": { granted: true, timestamp: NOW } },
+      active: true,
+      createdAt: NOW,
+      updatedAt: NOW,
+    });
+  });
+
+  it("works out the send time from a delay or a future timestamp", () => {
+    expect(resolveSendAt({ delaySeconds: 90 }, NOW)).toBe(NOW + 90 * 1000);
+    expect(resolveSendAt({ timestamp: NOW + 5000 }, NOW)).toBe(NOW + 5000);
+    expect(resolveSendAt({ timestamp: NOW - 5000 }, NOW)).toBeNull();
+    expect(resolveSendAt(undefined, NOW)).toBeNull();
+  });
+
+  it("sends a scheduled notification once it is due", async () => {
+    await schedule();
+    const { scheduledNotifications, notifications } = getRepositories();
+
+    expect(await runDueNotifications(NOW)).toBe(0);
+    expect(await notifications.get("message-1")).toMatchObject({ status: "scheduled" });
+
+    expect(await runDueNotifications(NOW + 60 * 1000)).toBe(1);
+    expect(provider.sentTo(TOKEN)).toHaveLength(1);
+    expect(await scheduledNotifications.get("message-1")).toMatchObject({ status: "sent" });
+    expect(await notifications.get("message-1")).toMatchObject({ status: "sent" });
+
+    expect(await runDueNotifications(NOW + 120 * 1000)).toBe(0);
+    expect(provider.sent).toHaveLength(1);
+  });
+
+  it("does not send a notification another worker has claimed", async () => {
+    await schedule();
+    await getRepositories().scheduledNotifications.update("message-1", { status: "processing" });
+
+    expect(await runDueNotifications(NOW + 60 * 1000)).toBe(0);
+    expect(provider.sent).toHaveLength(0);
+  });
+
+  it("cancels a pending notification only once", async () => {
+    await schedule();
+
+    expect(await cancelScheduledNotification("message-1")).toBe(true);
+    expect(await cancelScheduledNotification("message-1")).toBe(false);
+
+    expect(await runDueNotifications(NOW + 60 * 1000)).toBe(0);
+    expect(provider.sent).toHaveLength(0);
+    expect(await getRepositories().notifications.get("message-1")).toMatchObject({
+      status: "cancelled",
+    });
+  });
+
+  it("cannot cancel a notification that is already being sent", async () => {
+    await schedule();
+    await getRepositories().scheduledNotifications.update("message-1", { status: "processing" });
+
+    expect(await cancelScheduledNotification("message-1")).toBe(false);
+  });
+
+  it("marks the notification failed when the user has no subscription", async () => {
+    await getRepositories().subscriptions.delete("user-1");
+    await schedule();
+
+    await runDueNotifications(NOW + 60 * 1000);
+
+    expect(await getRepositories().scheduledNotifications.get("message-1")).toMatchObject({
+      status: "failed",
+      error: "not_found",
+    });
+    expect(await getRepositories().notifications.get("message-1")).toMatchObject({
+      status: "failed",
+    });
+  });
+});
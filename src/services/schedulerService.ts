@@ -0,0 +1,243 @@
+import { getRepositories } from "../repositories";
+import { ScheduledNotification } from "../types";
+import { getApiKey } from "./apiKeyService";
+import { recordNotification, recordStatus } from "./notificationLogService";
+import { sendToRecipients } from "./notificationService";
+
+// Furthest in the future a notification can be scheduled
+export const MAX_SCHEDULE_AHEAD_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Due notifications dispatched per scheduler tick
+const DISPATCH_BATCH_SIZE = 100;
+
+// How long a worker may hold a notification before another may reclaim it
+const DISPATCH_LOCK_MS = 60 * 1000;
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+/**
+ * Work out when a notification should be sent from its options.
+ * Returns null when it should be sent immediately.
+ */
+export function resolveSendAt(
+  options: { timestamp?: number; delaySeconds?: number } | undefined,
+  now: number = Date.now(),
+): number | null {
+  if (options?.delaySeconds) {
+    return now + options.delaySeconds * 1000;
+  }
+  if (options?.timestamp && options.timestamp > now) {
+    return options.timestamp;
+  }
+  return null;
+}
+
+/**
+ * Store a notification for later delivery and record it in the notification log
+ */
+export async function scheduleNotification(
+  scheduled: Omit<ScheduledNotification, "status" | "createdAt" | "updatedAt">,
+): Promise<ScheduledNotification> {
+  const { scheduledNotifications } = getRepositories();
+  const now = Date.now();
+
+  const record: ScheduledNotification = {
+    ...scheduled,
+    status: "pending",
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await scheduledNotifications.set(record.messageId, record);
+  await recordNotification(
+    {
+      messageId: record.messageId,
+      userKey: record.userKey,
+      origin: record.origin,
+      title: record.notification.title,
+      body: record.notification.body,
+      ...(record.notification.encrypted && { encrypted: true }),
+      timestamp: now,
+    },
+    "scheduled",
+  );
+
+  return record;
+}
+
+/**
+ * Cancel a pending scheduled notification.
+ * Returns false if it has already been dispatched or cancelled.
+ */
+export async function cancelScheduledNotification(
+  messageId: string,
+): Promise<boolean> {
+  const { scheduledNotifications } = getRepositories();
+
+  const cancelled = await scheduledNotifications.updateIf(
+    messageId,
+    { status: "pending" },
+    { status: "cancelled", updatedAt: Date.now() },
+  );
+  if (cancelled) {
+    await recordStatus(messageId, "cancelled");
+  }
+  return cancelled;
+}
+
+/**
+ * Send one scheduled notification if no other worker has claimed it
+ */
+async function dispatch(scheduled: ScheduledNotification): Promise<void> {
+  const { scheduledNotifications, subscriptions } = getRepositories();
+
+  const now = Date.now();
+  const claimed = await scheduledNotifications.updateIf(
+    scheduled.messageId,
+    { status: "pending" },
+    { status: "processing", lockedUntil: now + DISPATCH_LOCK_MS, updatedAt: now },
+  );
+  if (!claimed) {
+    return;
+  }
+
+  try {
+    const subscription = await subscriptions.get(scheduled.userKey);
+    // The scheduling key's current quotas apply, or the defaults without one
+    const apiKey = scheduled.keyId ? await getApiKey(scheduled.keyId) : null;
+    const [result] = await sendToRecipients(
+      scheduled.origin,
+      scheduled.notification,
+      [{ userKey: scheduled.userKey, subscription, messageId: scheduled.messageId }],
+      {
+        quotas: apiKey?.data.quotas,
+        priority: scheduled.priority,
+        silent: scheduled.silent,
+        tag: scheduled.tag,
+        keyId: scheduled.keyId,
+      },
+    );
+
+    // Rescheduled as pending for the end of the user's quiet hours
+    if (result?.deferred) {
+      console.log(
+        `🌙 Scheduled notification deferred until ${new Date(result.sendAt || 0).toISOString()} - MessageID: ${scheduled.messageId}`,
+      );
+      return;
+    }
+
+    if (result?.success) {
+      await scheduledNotifications.update(scheduled.messageId, {
+        status: "sent",
+        updatedAt: Date.now(),
+      });
+      console.log(`⏰ Scheduled notification sent - MessageID: ${scheduled.messageId}`);
+      return;
+    }
+
+    // Delivery failures are logged by sendToRecipients; other rejections are not
+    const error = result?.error || "delivery_failed";
+    await scheduledNotifications.update(scheduled.messageId, {
+      status: "failed",
+      error: error,
+      updatedAt: Date.now(),
+    });
+    if (error !== "delivery_failed") {
+      await recordStatus(scheduled.messageId, "failed", {
+        error: { code: error, message: result?.message || error },
+      });
+    }
+    console.warn(
+      `⚠️ Scheduled notification failed (${error}) - MessageID: ${scheduled.messageId}`,
+    );
+  } catch (error) {
+    console.error(
+      `❌ Error dispatching scheduled notification ${scheduled.messageId}:`,
+      error,
+    );
+    await scheduledNotifications.update(scheduled.messageId, {
+      status: "failed",
+      error: (error as Error).message,
+      updatedAt: Date.now(),
+    });
+    await recordStatus(scheduled.messageId, "failed", {
+      error: { code: "internal", message: (error as Error).message },
+    });
+  }
+}
+
+/**
+ * Release notifications whose worker died mid-dispatch, then dispatch every
+ * pending notification that is due
+ */
+export async function runDueNotifications(now: number = Date.now()): Promise<number> {
+  const { scheduledNotifications } = getRepositories();
+
+  const stale = await scheduledNotifications.find([
+    { field: "status", op: "==", value: "processing" },
+    { field: "lockedUntil", op: "<=", value: now },
+  ]);
+  for (const { data } of stale) {
+    const released = await scheduledNotifications.updateIf(
+      data.messageId,
+      { status: "processing", ...(data.lockedUntil && { lockedUntil: data.lockedUntil }) },
+      { status: "pending", updatedAt: now },
+    );
+    if (released) {
+      console.warn(`♻️ Reclaimed stalled scheduled notification - MessageID: ${data.messageId}`);
+    }
+  }
+
+  const due = await scheduledNotifications.find(
+    [
+      { field: "status", op: "==", value: "pending" },
+      { field: "sendAt", op: "<=", value: now },
+    ],
+    { orderBy: { field: "sendAt" }, limit: DISPATCH_BATCH_SIZE },
+  );
+
+  for (const { data } of due) {
+    await dispatch(data);
+  }
+  return due.length;
+}
+
+/**
+ * Start polling for due notifications in the background
+ */
+export function startScheduler(
+  intervalMs: number = parseInt(process.env.SCHEDULER_INTERVAL_MS || "10000", 10),
+): void {
+  if (timer) {
+    return;
+  }
+
+  timer = setInterval(async () => {
+    // Skip this tick if the previous one is still dispatching
+    if (running) {
+      return;
+    }
+    running = true;
+    try {
+      await runDueNotifications();
+    } catch (error) {
+      console.error("❌ Scheduler tick failed:", error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+  timer.unref();
+
+  console.log(`⏰ Notification scheduler started (every ${intervalMs}ms)`);
+}
+
+/**
+ * Stop the background scheduler
+ */
+export function stopScheduler(): void {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
@@ -0,0 +1,109 @@
+import { MemoryStore, setStore } from "../repositories";
+import { NotificationTemplate } from "../types";
+import {
+  deleteTemplate,
+  getTemplate,
+  listTemplates,
+  renderTemplate,
+  saveTemplate,
+} from "./templateService";
+
+const CHALLENGE: NotificationTemplate = {
+  origin: "coinflip.com",
+  name: "challenge-received",
+  defaultLocale: "en",
+  locales: {
+    en: { title: "New challenge", body: "{{playerName}} bet {{amount}} sats" },
+    de: { title: "Neue Herausforderung", body: "{{playerName}} setzt {{amount}} Sats" },
+    "pt-BR": { title: "Novo desafio", body: "{{playerName}} apostou {{amount}} sats" },
+  },
+  content: {
+    url: "https://coinflip.com/games/{{gameId}}",
+    actions: [{ id: "accept", title: "Accept", url: "https://coinflip.com/accept/{{gameId}}" }],
+  },
+  createdAt: 1,
+  updatedAt: 1,
+};
+
+const VARIABLES = { playerName: "Alice", amount: 500, gameId: "g1" };
+
+describe("templateService", () => {
+  describe("renderTemplate", () => {
+    it("fills placeholders in the title, body and URLs", () => {
+      const result = renderTemplate(CHALLENGE, VARIABLES, "en");
+
+      expect(result).toEqual({
+        locale: "en",
+        notification: {
+          title: "New challenge",
+          body: "Alice bet 500 sats",
+          url: "https://coinflip.com/games/g1",
+          actions: [{ id: "accept", title: "Accept", url: "https://coinflip.com/accept/g1" }],
+        },
+      });
+    });
+
+    it("picks the exact locale, then the language, then the default", () => {
+      expect(renderTemplate(CHALLENGE, VARIABLES, "pt-BR")).toMatchObject({ locale: "pt-BR" });
+      expect(renderTemplate(CHALLENGE, VARIABLES, "de-AT")).toMatchObject({ locale: "de" });
+      expect(renderTemplate(CHALLENGE, VARIABLES, "pt-PT")).toMatchObject({ locale: "pt-BR" });
+      expect(renderTemplate(CHALLENGE, VARIABLES, "fr")).toMatchObject({ locale: "en" });
+      expect(renderTemplate(CHALLENGE, VARIABLES)).toMatchObject({ locale: "en" });
+    });
+
+    it("encodes variables used in URLs", () => {
+      const result = renderTemplate(CHALLENGE, { ...VARIABLES, gameId: "../admin?x=1" }, "en");
+
+      expect(result).toMatchObject({
+        notification: { url: "https://coinflip.com/games/..%2Fadmin%3Fx%3D1" },
+      });
+    });
+
+    it("reports every missing variable", () => {
+      expect(renderTemplate(CHALLENGE, { playerName: "Alice" }, "en")).toEqual({
+        error: "Missing template variables: amount, gameId",
+      });
+    });
+
+    it("rejects a rendering that is too long to send", () => {
+      const result = renderTemplate(CHALLENGE, { ...VARIABLES, playerName: "A".repeat(200) }, "en");
+
+      expect(result).toEqual({ error: "Rendered body is longer than 200 characters" });
+    });
+  });
+
+  describe("storage", () => {
+    beforeEach(() => {
+      setStore(new MemoryStore());
+    });
+
+    it("saves, replaces and deletes an origin's templates", async () => {
+      const { createdAt, updatedAt, ...fields } = CHALLENGE;
+
+      expect((await saveTemplate(fields)).created).toBe(true);
+      expect((await saveTemplate({ ...fields, description: "Sent on a new bet" })).created).toBe(
+        false,
+      );
+      expect((await getTemplate("coinflip.com", "challenge-received"))?.description).toBe(
+        "Sent on a new bet",
+      );
+
+      expect(await deleteTemplate("coinflip.com", "challenge-received")).toBe(true);
+      expect(await deleteTemplate("coinflip.com", "challenge-received")).toBe(false);
+      expect(await getTemplate("coinflip.com", "challenge-received")).toBeNull();
+    });
+
+    it("keeps each origin's templates to itself", async () => {
+      const { createdAt, updatedAt, ...fields } = CHALLENGE;
+      await saveTemplate(fields);
+      await saveTemplate({ ...fields, name: "game-over" });
+
+      expect(await getTemplate("chess.com", "challenge-received")).toBeNull();
+      expect(await listTemplates("chess.com")).toEqual([]);
+      expect((await listTemplates("coinflip.com")).map(({ name }) => name)).toEqual([
+        "challenge-received",
+        "game-over",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import * as crypto from "crypto";
+import { getRepositories } from "../repositories";
+import {
+  NotificationPayload,
+  NotificationTemplate,
+  UserSubscription,
+} from "../types";
+import { getActiveDevices } from "./deviceService";
+
+// Template names are short, URL-safe identifiers such as "challenge-received"
+export const TEMPLATE_NAME_PATTERN = /^[A-Za-z0-9_.~-]{1,64}$/;
+
+// BCP 47 language tags such as "en", "de-AT" or "zh-Hant-TW"
+export const LOCALE_PATTERN = /^[A-Za-z]{2,3}(-[A-Za-z0-9]{2,8})*$/;
+
+// Placeholder variable names, as used in {{playerName}}
+export const VARIABLE_NAME_PATTERN = /^[A-Za-z0-9_]+$/;
+
+// Longest title and body a notification may have, after rendering
+export const MAX_TITLE_LENGTH = 100;
+export const MAX_BODY_LENGTH = 200;
+
+export const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z0-9_]+)\s*\}\}/g;
+
+export type TemplateRenderResult =
+  | { notification: NotificationPayload; locale: string }
+  | { error: string };
+
+function templateId(origin: string, name: string): string {
+  // Hashed because origins contain "/"
+  const hash = crypto.createHash("sha256").update(`${origin}\n${name}`).digest("hex");
+  return hash.substring(0, 32);
+}
+
+/**
+ * One of an origin's templates, or null if it has none with that name
+ */
+export async function getTemplate(
+  origin: string,
+  name: string,
+): Promise<NotificationTemplate | null> {
+  return getRepositories().templates.get(templateId(origin, name));
+}
+
+/**
+ * Every template an origin has registered, by name
+ */
+export async function listTemplates(origin: string): Promise<NotificationTemplate[]> {
+  const templates = await getRepositories().templates.find([
+    { field: "origin", op: "==", value: origin },
+  ]);
+  return templates
+    .map(({ data }) => data)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Create or replace an origin's template. Returns whether it is new.
+ */
+export async function saveTemplate(
+  template: Omit<NotificationTemplate, "createdAt" | "updatedAt">,
+): Promise<{ template: NotificationTemplate; created: boolean }> {
+  const { templates } = getRepositories();
+  const id = templateId(template.origin, template.name);
+  const existing = await templates.get(id);
+  const now = Date.now();
+
+  const saved: NotificationTemplate = {
+    ...template,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+  await templates.set(id, saved);
+  return { template: saved, created: !existing };
+}
+
+/**
+ * Delete an origin's template. Returns false if it did not exist.
+ */
+export async function deleteTemplate(origin: string, name: string): Promise<boolean> {
+  const { templates } = getRepositories();
+  const id = templateId(origin, name);
+  if (!(await templates.get(id))) {
+    return false;
+  }
+  await templates.delete(id);
+  return true;
+}
+
+/**
+ * Language of the user's most recently registered device that reported one
+ */
+export function getSubscriptionLocale(subscription: UserSubscription): string | undefined {
+  return getActiveDevices(subscription)
+    .filter((device) => device.deviceInfo?.locale)
+    .sort((a, b) => b.updatedAt - a.updatedAt)[0]?.deviceInfo?.locale;
+}
+
+/**
+ * The template's variant for a locale: an exact match, then the same language
+ * (e.g. "de" for "de-AT"), then the template's default
+ */
+function selectLocale(template: NotificationTemplate, locale: string | undefined): string {
+  const locales = Object.keys(template.locales);
+  const wanted = locale?.toLowerCase();
+  const language = wanted?.split("-")[0];
+
+  return (
+    locales.find((candidate) => candidate.toLowerCase() === wanted) ||
+    locales.find((candidate) => candidate.toLowerCase() === language) ||
+    locales.find((candidate) => candidate.toLowerCase().split("-")[0] === language) ||
+    template.defaultLocale
+  );
+}
+
+function fillPlaceholders(
+  text: string,
+  variables: Record<string, string | number>,
+  missing: Set<string>,
+  encode = false,
+): string {
+  return text.replace(PLACEHOLDER_PATTERN, (_match, name: string) => {
+    const value = variables[name];
+    if (value === undefined) {
+      missing.add(name);
+      return "";
+    }
+    // Values in URLs are encoded so they cannot change the scheme or host
+    return encode ? encodeURIComponent(String(value)) : String(value);
+  });
+}
+
+/**
+ * Render a template in the variant closest to the recipient's locale. Returns
+ * an error if a placeholder has no variable or the result is too long to send.
+ */
+export function renderTemplate(
+  template: NotificationTemplate,
+  variables: Record<string, string | number> = {},
+  locale?: string,
+): TemplateRenderResult {
+  const selected = selectLocale(template, locale);
+  const variant = template.locales[selected];
+  if (!variant) {
+    return { error: `Template "${template.name}" has no "${selected}" variant` };
+  }
+
+  const missing = new Set<string>();
+  const content = template.content;
+  const notification: NotificationPayload = {
+    ...content,
+    title: fillPlaceholders(variant.title, variables, missing),
+    body: fillPlaceholders(variant.body, variables, missing),
+    ...(content?.url && { url: fillPlaceholders(content.url, variables, missing, true) }),
+    ...(content?.actions && {
+      actions: content.actions.map((action) => ({
+        ...action,
+        ...(action.url && {
+          url: fillPlaceholders(action.url, variables, missing, true),
+        }),
+      })),
+    }),
+  };
+
+  if (missing.size > 0) {
+    return { error: `Missing template variables: ${Array.from(missing).join(", ")}` };
+  }
+  if (notification.title.length > MAX_TITLE_LENGTH) {
+    return { error: `Rendered title is longer than ${MAX_TITLE_LENGTH} characters` };
+  }
+  if (notification.body.length > MAX_BODY_LENGTH) {
+    return { error: `Rendered body is longer than ${MAX_BODY_LENGTH} characters` };
+  }
+
+  return { notification, locale: selected };
+}
@@ -0,0 +1,40 @@
+import { getRepositories } from "../repositories";
+import { UserSubscription } from "../types";
+
+// Topic names are short, URL-safe identifiers such as "game-results"
+export const TOPIC_NAME_PATTERN = /^[A-Za-z0-9_.~-]{1,64}$/;
+
+/**
+ * Topics are scoped to the origin that owns them, e.g. "coinflip.com/game-results"
+ */
+export function qualifyTopic(origin: string, topic: string): string {
+  return `${origin}/${topic}`;
+}
+
+/**
+ * Topic names an origin has subscribed this user to, without the origin prefix
+ */
+export function getOriginTopics(
+  subscription: UserSubscription,
+  origin: string,
+): string[] {
+  const prefix = `${origin}/`;
+  return (subscription.topics || [])
+    .filter((topic) => topic.startsWith(prefix))
+    .map((topic) => topic.substring(prefix.length));
+}
+
+/**
+ * Active subscriptions that are members of an origin's topic
+ */
+export async function findTopicMembers(
+  origin: string,
+  topic: string,
+): Promise<Array<{ userKey: string; subscription: UserSubscription }>> {
+  const members = await getRepositories().subscriptions.find([
+    { field: "topics", op: "array-contains", value: qualifyTopic(origin, topic) },
+    { field: "active", op: "==", value: true },
+  ]);
+
+  return members.map(({ id, data }) => ({ userKey: id, subscription: data }));
+}
@@ -0,0 +1,159 @@
+import { createServer, IncomingHttpHeaders, Server } from "http";
+import { AddressInfo } from "net";
+import { getRepositories, MemoryStore, setStore } from "../repositories";
+import {
+  checkWebhookUrl,
+  createWebhook,
+  emitWebhookEvent,
+  sendTestWebhook,
+  signWebhookBody,
+  WEBHOOK_HEADERS,
+} from "./webhookService";
+
+interface ReceivedRequest {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+describe("webhookService", () => {
+  let server: Server;
+  let url: string;
+  let received: ReceivedRequest[];
+  let responseStatus: number;
+
+  beforeAll(async () => {
+    // The test endpoint listens on loopback
+    process.env.WEBHOOK_ALLOW_PRIVATE_ADDRESSES = "true";
+    server = createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = responseStatus;
+        res.end();
+      });
+    });
+    server.listen(0, "127.0.0.1");
+    await new Promise((resolve) => server.once("listening", resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`;
+  });
+
+  afterAll(async () => {
+    delete process.env.WEBHOOK_ALLOW_PRIVATE_ADDRESSES;
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    setStore(new MemoryStore());
+    received = [];
+    responseStatus = 204;
+  });
+
+  it("signs the body with the webhook's secret", async () => {
+    const webhook = await createWebhook("coinflip.com", { url, events: ["notification.sent"] });
+
+    const delivery = await sendTestWebhook(webhook);
+
+    expect(delivery).toMatchObject({ status: "succeeded", attempts: 1, responseStatus: 204 });
+    const [request] = received;
+    const timestamp = request?.headers[WEBHOOK_HEADERS.timestamp] as string;
+    expect(request?.headers[WEBHOOK_HEADERS.signature]).toBe(
+      signWebhookBody(webhook.secret, timestamp, request?.body || ""),
+    );
+    expect(request?.headers[WEBHOOK_HEADERS.event]).toBe("webhook.test");
+    expect(JSON.parse(request?.body || "{}")).toMatchObject({
+      id: delivery.deliveryId,
+      event: "webhook.test",
+      origin: "coinflip.com",
+    });
+  });
+
+  it("does not verify under another secret", async () => {
+    const webhook = await createWebhook("coinflip.com", { url, events: ["notification.sent"] });
+    const other = await createWebhook("coinflip.com", { url, events: ["notification.sent"] });
+
+    await sendTestWebhook(webhook);
+
+    const [request] = received;
+    const timestamp = request?.headers[WEBHOOK_HEADERS.timestamp] as string;
+    expect(request?.headers[WEBHOOK_HEADERS.signature]).not.toBe(
+      signWebhookBody(other.secret, timestamp, request?.body || ""),
+    );
+  });
+
+  it("only sends events the webhook subscribed to", async () => {
+    await createWebhook("coinflip.com", { url, events: ["notification.clicked"] });
+
+    await emitWebhookEvent("coinflip.com", "notification.sent", { messageId: "message-1" });
+
+    expect(await getRepositories().webhookDeliveries.find([])).toHaveLength(0);
+    expect(received).toHaveLength(0);
+  });
+
+  it("schedules a retry when the endpoint fails", async () => {
+    responseStatus = 503;
+    const webhook = await createWebhook("coinflip.com", { url, events: ["notification.sent"] });
+
+    await emitWebhookEvent("coinflip.com", "notification.sent", { messageId: "message-1" });
+
+    // The first attempt runs in the background
+    const { webhookDeliveries } = getRepositories();
+    const findDelivery = async () =>
+      (await webhookDeliveries.find([{ field: "webhookId", op: "==", value: webhook.webhookId }]))[0];
+    for (let i = 0; i < 50 && (await findDelivery())?.data.attempts === 0; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+    expect((await findDelivery())?.data).toMatchObject({
+      status: "pending",
+      attempts: 1,
+      responseStatus: 503,
+      lastError: "Endpoint responded with 503",
+    });
+  });
+});
+
+describe("webhook URL checks", () => {
+  beforeEach(() => {
+    setStore(new MemoryStore());
+  });
+
+  it("rejects private, loopback and link-local addresses", async () => {
+    for (const url of [
+      "https://127.0.0.1/hooks",
+      "https://10.1.2.3/hooks",
+      "https://192.168.0.10/hooks",
+      "http://169.254.169.254/latest/meta-data",
+      "https://[::1]/hooks",
+      "https://[::ffff:127.0.0.1]/hooks",
+      "https://[fd00::1]/hooks",
+    ]) {
+      expect(await checkWebhookUrl(url)).toBe(
+        "\"url\" must not point to a private, loopback or link-local address",
+      );
+    }
+  });
+
+  it("accepts a public address", async () => {
+    expect(await checkWebhookUrl("https://93.184.216.34/hooks")).toBeNull();
+    expect(await checkWebhookUrl("https://[::ffff:93.184.216.34]/hooks")).toBeNull();
+  });
+
+  it("rejects URLs that are not HTTP", async () => {
+    expect(await checkWebhookUrl("ftp://93.184.216.34/hooks")).toBe("\"url\" must use HTTPS");
+    expect(await checkWebhookUrl("not a url")).toBe("\"url\" must be a valid URI");
+  });
+
+  it("does not send to a blocked address stored before the check", async () => {
+    const webhook = await createWebhook("coinflip.com", {
+      url: "http://169.254.169.254/latest/meta-data",
+      events: ["notification.sent"],
+    });
+
+    const delivery = await sendTestWebhook(webhook);
+
+    expect(delivery).toMatchObject({
+      status: "failed",
+      lastError: "169.254.169.254 is an address webhooks may not reach",
+    });
+  });
+});
@@ -0,0 +1,582 @@
+import * as crypto from "crypto";
+import * as dns from "dns";
+import * as http from "http";
+import * as https from "https";
+import * as net from "net";
+import { v4 as uuidv4 } from "uuid";
+import { getRepositories } from "../repositories";
+import {
+  NotificationLog,
+  NotificationStatus,
+  NotificationStatusEvent,
+  WebhookDelivery,
+  WebhookEndpoint,
+  WebhookEventType,
+} from "../types";
+import { QueueConfig, getBackoffDelay } from "./queueService";
+
+// Events a webhook can subscribe to
+export const WEBHOOK_EVENT_TYPES: readonly WebhookEventType[] = [
+  "notification.sent",
+  "notification.failed",
+  "notification.delivered",
+  "notification.clicked",
+  "subscription.created",
+  "subscription.revoked",
+];
+
+// Headers every webhook request carries
+export const WEBHOOK_HEADERS = {
+  id: "x-webhook-id",
+  event: "x-webhook-event",
+  timestamp: "x-webhook-timestamp",
+  signature: "x-webhook-signature",
+} as const;
+
+// Notification statuses that are reported to webhooks
+const STATUS_EVENTS: Partial<Record<NotificationStatus, WebhookEventType>> = {
+  sent: "notification.sent",
+  failed: "notification.failed",
+  delivered: "notification.delivered",
+  clicked: "notification.clicked",
+};
+
+// Prefix that makes leaked secrets easy to recognize in code and logs
+const WEBHOOK_SECRET_PREFIX = "whsec_";
+
+// How long an endpoint has to answer before the attempt counts as failed
+const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+
+// How long deliveries stay in the log
+const DELIVERY_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Due deliveries attempted per worker tick
+const WORKER_BATCH_SIZE = 100;
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+export type WebhookSummary = Omit<WebhookEndpoint, "secret">;
+
+/**
+ * Retry settings from WEBHOOK_* environment variables
+ */
+export function getWebhookConfig(): QueueConfig {
+  return {
+    maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || "8", 10),
+    backoffBaseMs: parseInt(process.env.WEBHOOK_BACKOFF_BASE_MS || "30000", 10),
+    backoffMaxMs: parseInt(process.env.WEBHOOK_BACKOFF_MAX_MS || "21600000", 10),
+    lockMs: 60 * 1000,
+  };
+}
+
+// Addresses a webhook may not reach: loopback, private networks, link-local
+// (which includes cloud metadata at 169.254.169.254) and other special ranges
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [prefix, length] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(prefix, length, "ipv4");
+}
+// IPv4-mapped IPv6 addresses (::ffff:a.b.c.d) are checked against the IPv4 rules above
+for (const [prefix, length] of [
+  ["::", 127],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(prefix, length, "ipv6");
+}
+
+/**
+ * Whether webhooks may reach private addresses, for local development only
+ */
+function allowPrivateAddresses(): boolean {
+  return process.env.WEBHOOK_ALLOW_PRIVATE_ADDRESSES === "true";
+}
+
+/**
+ * Whether a resolved IP address is one webhooks may not be sent to
+ */
+function isBlockedAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) {
+    return true;
+  }
+  return BLOCKED_ADDRESSES.check(address, family === 6 ? "ipv6" : "ipv4");
+}
+
+/**
+ * Host of a URL as used for the connection, without IPv6 brackets
+ */
+function connectHost(url: URL): string {
+  return url.hostname.replace(/^\[(.*)\]$/, "$1");
+}
+
+/**
+ * Check whether a URL may receive webhooks: HTTPS (or plain HTTP outside
+ * production), and a host that resolves only to public addresses.
+ * Returns the validation message, or null when the URL is allowed.
+ */
+export async function checkWebhookUrl(url: string): Promise<string | null> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return "\"url\" must be a valid URI";
+  }
+
+  if (
+    parsed.protocol !== "https:" &&
+    !(parsed.protocol === "http:" && process.env.NODE_ENV !== "production")
+  ) {
+    return "\"url\" must use HTTPS";
+  }
+
+  if (allowPrivateAddresses()) {
+    return null;
+  }
+
+  const host = connectHost(parsed);
+  let addresses: string[];
+  if (net.isIP(host)) {
+    addresses = [host];
+  } else {
+    try {
+      addresses = (await dns.promises.lookup(host, { all: true })).map((entry) => entry.address);
+    } catch {
+      return "\"url\" host could not be resolved";
+    }
+  }
+
+  if (addresses.length === 0 || addresses.some(isBlockedAddress)) {
+    return "\"url\" must not point to a private, loopback or link-local address";
+  }
+  return null;
+}
+
+/**
+ * DNS lookup for webhook requests that fails when the host resolves to a
+ * blocked address. It runs for the connection itself, so a host cannot pass
+ * the registration check and then resolve somewhere else.
+ */
+const lookupPublicAddress: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, options, (error, address, family) => {
+    if (error) {
+      callback(error, address, family);
+      return;
+    }
+    const resolved = Array.isArray(address) ? address.map((entry) => entry.address) : [address];
+    if (!allowPrivateAddresses() && (resolved.length === 0 || resolved.some(isBlockedAddress))) {
+      callback(
+        new Error(`${hostname} resolves to an address webhooks may not reach`),
+        address,
+        family,
+      );
+      return;
+    }
+    callback(null, address, family);
+  });
+};
+
+/**
+ * POST a body to a webhook URL and resolve with the response status.
+ * Redirects are not followed, since they could point the signed request
+ * somewhere else.
+ */
+function postWebhook(url: string, headers: Record<string, string>, body: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const parsed = new URL(url);
+    const host = connectHost(parsed);
+    // IP literals are connected to without a lookup, so check them here
+    if (net.isIP(host) && !allowPrivateAddresses() && isBlockedAddress(host)) {
+      reject(new Error(`${host} is an address webhooks may not reach`));
+      return;
+    }
+
+    const request = (parsed.protocol === "https:" ? https : http).request(
+      parsed,
+      {
+        method: "POST",
+        headers: { ...headers, "Content-Length": Buffer.byteLength(body).toString() },
+        lookup: lookupPublicAddress,
+        timeout: WEBHOOK_TIMEOUT_MS,
+      },
+      (response) => {
+        response.resume();
+        resolve(response.statusCode || 0);
+      },
+    );
+    request.on("timeout", () => request.destroy(new Error("Request timed out")));
+    request.on("error", reject);
+    request.end(body);
+  });
+}
+
+/**
+ * A webhook without its secret, as listed by the API
+ */
+export function toWebhookSummary(webhook: WebhookEndpoint): WebhookSummary {
+  const { secret, ...summary } = webhook;
+  return summary;
+}
+
+/**
+ * Signature of a webhook body: base64 HMAC-SHA256 of "<timestamp>.<body>"
+ * under the webhook's secret, sent in X-Webhook-Signature
+ */
+export function signWebhookBody(secret: string, timestamp: string, body: string): string {
+  return crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("base64");
+}
+
+/**
+ * Register a webhook for an origin. The returned record includes the secret.
+ */
+export async function createWebhook(
+  origin: string,
+  fields: Pick<WebhookEndpoint, "url" | "events"> & { description?: string | undefined },
+): Promise<WebhookEndpoint> {
+  const now = Date.now();
+  const webhook: WebhookEndpoint = {
+    webhookId: uuidv4(),
+    origin,
+    url: fields.url,
+    events: fields.events,
+    secret: `${WEBHOOK_SECRET_PREFIX}${crypto.randomBytes(32).toString("base64url")}`,
+    ...(fields.description && { description: fields.description }),
+    active: true,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await getRepositories().webhooks.set(webhook.webhookId, webhook);
+  return webhook;
+}
+
+/**
+ * One of an origin's webhooks, or null if it has none with that ID
+ */
+export async function getWebhook(
+  origin: string,
+  webhookId: string,
+): Promise<WebhookEndpoint | null> {
+  const webhook = await getRepositories().webhooks.get(webhookId);
+  return webhook?.origin === origin ? webhook : null;
+}
+
+/**
+ * Every webhook an origin has registered, oldest first
+ */
+export async function listWebhooks(origin: string): Promise<WebhookEndpoint[]> {
+  const webhooks = await getRepositories().webhooks.find([
+    { field: "origin", op: "==", value: origin },
+  ]);
+  return webhooks.map(({ data }) => data).sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * Change an origin's webhook. Returns null if it has none with that ID.
+ */
+export async function updateWebhook(
+  origin: string,
+  webhookId: string,
+  fields: Partial<Pick<WebhookEndpoint, "url" | "events" | "description" | "active">>,
+): Promise<WebhookEndpoint | null> {
+  const webhook = await getWebhook(origin, webhookId);
+  if (!webhook) {
+    return null;
+  }
+
+  const updates = { ...fields, updatedAt: Date.now() };
+  await getRepositories().webhooks.update(webhookId, updates);
+  return { ...webhook, ...updates };
+}
+
+/**
+ * Delete an origin's webhook. Its pending deliveries fail when next attempted.
+ * Returns false if it did not exist.
+ */
+export async function deleteWebhook(origin: string, webhookId: string): Promise<boolean> {
+  if (!(await getWebhook(origin, webhookId))) {
+    return false;
+  }
+  await getRepositories().webhooks.delete(webhookId);
+  return true;
+}
+
+/**
+ * An origin's deliveries to one webhook, newest first
+ */
+export async function listWebhookDeliveries(
+  webhookId: string,
+  limit: number,
+  status?: WebhookDelivery["status"],
+): Promise<WebhookDelivery[]> {
+  const deliveries = await getRepositories().webhookDeliveries.find(
+    [
+      { field: "webhookId", op: "==", value: webhookId },
+      ...(status ? [{ field: "status", op: "==" as const, value: status }] : []),
+    ],
+    { orderBy: { field: "createdAt", direction: "desc" }, limit },
+  );
+  return deliveries.map(({ data }) => data);
+}
+
+/**
+ * Build a delivery that is already claimed by the caller, for immediate sending
+ */
+function createDelivery(
+  webhook: WebhookEndpoint,
+  event: WebhookDelivery["event"],
+  data: Record<string, unknown>,
+  maxAttempts: number,
+): WebhookDelivery {
+  const now = Date.now();
+  const deliveryId = uuidv4();
+  return {
+    deliveryId,
+    webhookId: webhook.webhookId,
+    origin: webhook.origin,
+    event,
+    body: JSON.stringify({
+      id: deliveryId,
+      event: event,
+      origin: webhook.origin,
+      timestamp: now,
+      data: data,
+    }),
+    status: "processing",
+    attempts: 0,
+    maxAttempts,
+    nextAttemptAt: now,
+    lockedUntil: now + getWebhookConfig().lockMs,
+    createdAt: now,
+    updatedAt: now,
+    expiresAt: now + DELIVERY_RETENTION_MS,
+  };
+}
+
+/**
+ * Make one attempt at a claimed delivery and record the outcome. Failed
+ * attempts are retried with backoff until the delivery runs out of attempts.
+ */
+async function attemptDelivery(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+  const { webhooks, webhookDeliveries } = getRepositories();
+  const attempts = delivery.attempts + 1;
+
+  let responseStatus: number | undefined;
+  let error: string | undefined;
+
+  const webhook = await webhooks.get(delivery.webhookId);
+  if (!webhook || !webhook.active) {
+    error = webhook ? "Webhook is disabled" : "Webhook was deleted";
+  } else {
+    const timestamp = Date.now().toString();
+    try {
+      responseStatus = await postWebhook(
+        webhook.url,
+        {
+          "Content-Type": "application/json",
+          "User-Agent": "Metanet-Notification-Webhooks/1.0",
+          [WEBHOOK_HEADERS.id]: delivery.deliveryId,
+          [WEBHOOK_HEADERS.event]: delivery.event,
+          [WEBHOOK_HEADERS.timestamp]: timestamp,
+          [WEBHOOK_HEADERS.signature]: signWebhookBody(webhook.secret, timestamp, delivery.body),
+        },
+        delivery.body,
+      );
+      if (responseStatus < 200 || responseStatus >= 300) {
+        error = `Endpoint responded with ${responseStatus}`;
+      }
+    } catch (requestError) {
+      error = (requestError as Error).message || "Request failed";
+    }
+  }
+
+  const now = Date.now();
+  const retrying = error !== undefined && webhook?.active && attempts < delivery.maxAttempts;
+  const fields: Partial<WebhookDelivery> = {
+    status: error === undefined ? "succeeded" : retrying ? "pending" : "failed",
+    attempts,
+    ...(retrying && { nextAttemptAt: now + getBackoffDelay(attempts, getWebhookConfig()) }),
+    ...(responseStatus !== undefined && { responseStatus }),
+    ...(error !== undefined && { lastError: error }),
+    updatedAt: now,
+  };
+  await webhookDeliveries.update(delivery.deliveryId, fields);
+
+  if (error === undefined) {
+    console.log(`🪝 Webhook delivery ${delivery.deliveryId} (${delivery.event}) succeeded`);
+  } else if (retrying) {
+    console.warn(
+      `⏳ Webhook delivery ${delivery.deliveryId} failed (${error}), retry ${attempts}/${delivery.maxAttempts - 1} at ${new Date(fields.nextAttemptAt as number).toISOString()}`,
+    );
+  } else {
+    console.error(
+      `💀 Webhook delivery ${delivery.deliveryId} failed after ${attempts} attempts (${error})`,
+    );
+  }
+  return { ...delivery, ...fields };
+}
+
+/**
+ * Queue an event for every active webhook of the origin that subscribed to
+ * it, then make the first attempts in the background. Never throws, so the
+ * operation that produced the event is not affected by webhook problems.
+ */
+export async function emitWebhookEvent(
+  origin: string,
+  event: WebhookEventType,
+  data: Record<string, unknown>,
+): Promise<void> {
+  try {
+    const { webhooks, webhookDeliveries } = getRepositories();
+    const subscribed = await webhooks.find([
+      { field: "origin", op: "==", value: origin },
+      { field: "events", op: "array-contains", value: event },
+    ]);
+
+    const maxAttempts = getWebhookConfig().maxAttempts;
+    const deliveries = subscribed
+      .filter(({ data: webhook }) => webhook.active)
+      .map(({ data: webhook }) => createDelivery(webhook, event, data, maxAttempts));
+    await Promise.all(
+      deliveries.map((delivery) => webhookDeliveries.set(delivery.deliveryId, delivery)),
+    );
+
+    for (const delivery of deliveries) {
+      attemptDelivery(delivery).catch((error) =>
+        console.error(`❌ Error attempting webhook delivery ${delivery.deliveryId}:`, error),
+      );
+    }
+  } catch (error) {
+    console.error(`❌ Error queueing ${event} webhooks for ${origin}:`, error);
+  }
+}
+
+/**
+ * Report a notification's new status to the origin's webhooks, for the
+ * statuses webhooks can subscribe to
+ */
+export async function emitNotificationStatus(
+  log: Pick<NotificationLog, "messageId" | "userKey" | "origin">,
+  statusEvent: NotificationStatusEvent,
+): Promise<void> {
+  const event = STATUS_EVENTS[statusEvent.status];
+  if (!event) {
+    return;
+  }
+
+  // Only identifiers and outcomes: the content may be private to the user
+  await emitWebhookEvent(log.origin, event, {
+    messageId: log.messageId,
+    userKey: log.userKey,
+    status: statusEvent.status,
+    ...(statusEvent.deviceId && { deviceId: statusEvent.deviceId }),
+    ...(statusEvent.action && { action: statusEvent.action }),
+    ...(statusEvent.error && { error: statusEvent.error }),
+    occurredAt: statusEvent.timestamp,
+  });
+}
+
+/**
+ * Send a test event to a webhook right away, without retries, so the origin
+ * can check its endpoint and signature verification
+ */
+export async function sendTestWebhook(webhook: WebhookEndpoint): Promise<WebhookDelivery> {
+  const delivery = createDelivery(webhook, "webhook.test", { test: true }, 1);
+  await getRepositories().webhookDeliveries.set(delivery.deliveryId, delivery);
+  return attemptDelivery(delivery);
+}
+
+/**
+ * Release deliveries whose worker died mid-attempt, then attempt due retries
+ */
+export async function runWebhookDeliveries(now: number = Date.now()): Promise<number> {
+  const { webhookDeliveries } = getRepositories();
+  const config = getWebhookConfig();
+
+  const stale = await webhookDeliveries.find([
+    { field: "status", op: "==", value: "processing" },
+    { field: "lockedUntil", op: "<=", value: now },
+  ]);
+  for (const { data } of stale) {
+    await webhookDeliveries.updateIf(
+      data.deliveryId,
+      { status: "processing", ...(data.lockedUntil && { lockedUntil: data.lockedUntil }) },
+      { status: "pending", updatedAt: now },
+    );
+  }
+
+  const due = await webhookDeliveries.find(
+    [
+      { field: "status", op: "==", value: "pending" },
+      { field: "nextAttemptAt", op: "<=", value: now },
+    ],
+    { orderBy: { field: "nextAttemptAt" }, limit: WORKER_BATCH_SIZE },
+  );
+
+  const claimed: WebhookDelivery[] = [];
+  for (const { data } of due) {
+    const lockedUntil = now + config.lockMs;
+    const won = await webhookDeliveries.updateIf(
+      data.deliveryId,
+      { status: "pending" },
+      { status: "processing", lockedUntil, updatedAt: now },
+    );
+    if (won) {
+      claimed.push({ ...data, status: "processing", lockedUntil });
+    }
+  }
+
+  await Promise.all(claimed.map(attemptDelivery));
+  return claimed.length;
+}
+
+/**
+ * Start retrying webhook deliveries in the background
+ */
+export function startWebhookWorker(
+  intervalMs: number = parseInt(process.env.WEBHOOK_POLL_INTERVAL_MS || "10000", 10),
+): void {
+  if (timer) {
+    return;
+  }
+
+  timer = setInterval(async () => {
+    // Skip this tick if the previous one is still sending
+    if (running) {
+      return;
+    }
+    running = true;
+    try {
+      await runWebhookDeliveries();
+    } catch (error) {
+      console.error("❌ Webhook worker tick failed:", error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+  timer.unref();
+
+  console.log(`🪝 Webhook delivery worker started (every ${intervalMs}ms)`);
+}
+
+/**
+ * Stop the background webhook worker
+ */
+export function stopWebhookWorker(): void {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
@@ -1,4 +1,5 @@
 import { Request } from "express";
+import { PushPayload, PushTarget } from "../push/types";
 
 // Push subscription types
 export interface PushSubscription {
@@ -14,11 +15,14 @@ export interface DeviceInfo {
   platform: "ios" | "android" | "web";
   appVersion?: string;
   deviceId?: string;
+  // BCP 47 language tag of the device, e.g. "de-AT", for picking template variants
+  locale?: string;
 }
 
 export interface SubscriptionRequest extends PushSubscription {
   userId: string;
   deviceInfo?: DeviceInfo;
+  topics?: string[];
 }
 
 // Notification types
@@ -27,78 +31,565 @@ export interface NotificationPayload {
   body: string;
   icon?: string;
   badge?: number;
+  // Large picture shown when the notification is expanded
+  image?: string;
+  // Opened when the notification is tapped: a web URL or an app deep link
+  url?: string;
+  actions?: NotificationAction[];
+  // Sound bundled with the app, or "default"
+  sound?: string;
+  // Android notification channel; the app must have created it
+  androidChannelId?: string;
   data?: Record<string, any>;
+  // Content encrypted by the site to each device's keys, by deviceId; the
+  // title and body are then empty and only the app can read the notification
+  encrypted?: Record<string, string>;
+}
+
+// A button shown with the notification
+export interface NotificationAction {
+  // Reported back in the "clicked" acknowledgement when the button is tapped
+  id: string;
+  title: string;
+  // Opened instead of the notification's url when the button is tapped
+  url?: string;
+}
+
+// Urgent notifications bypass the user's quiet hours and do-not-disturb
+export type NotificationPriority = "normal" | "urgent";
+
+// Title and body of a template in one language, with {{variable}} placeholders
+export interface TemplateVariant {
+  title: string;
+  body: string;
+}
+
+export interface NotificationTemplate {
+  origin: string;
+  name: string;
+  description?: string;
+  // Used when no variant matches the recipient's locale
+  defaultLocale: string;
+  locales: Record<string, TemplateVariant>;
+  // Sent with every rendering; url and action URLs may use placeholders too
+  content?: Omit<NotificationPayload, "title" | "body">;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Send a stored template instead of a notification
+export interface TemplateReference {
+  name: string;
+  variables?: Record<string, string | number>;
 }
 
 export interface NotificationRequest {
   userKey: string;
-  notification: NotificationPayload;
+  // Exactly one of notification, template or encrypted
+  notification?: NotificationPayload;
+  template?: TemplateReference;
+  // Ciphertext of the notification for each of the user's devices, by deviceId
+  encrypted?: Record<string, string>;
+  // Required with encrypted: the UUID the ciphertexts were sealed to
+  messageId?: string;
   options?: {
     requireInteraction?: boolean;
     silent?: boolean;
+    priority?: NotificationPriority;
     tag?: string;
+    // Send at this time (ms since epoch) instead of immediately
     timestamp?: number;
+    // Send after this many seconds instead of immediately
+    delaySeconds?: number;
   };
 }
 
+export interface BatchNotificationRequest {
+  userKeys: string[];
+  notification?: NotificationPayload;
+  template?: TemplateReference;
+  options?: NotificationRequest["options"];
+}
+
+export interface TopicNotificationRequest {
+  topic: string;
+  notification?: NotificationPayload;
+  template?: TemplateReference;
+  options?: NotificationRequest["options"];
+}
+
 export interface NotificationResponse {
   success: boolean;
   messageId: string;
   timestamp: number;
+  deliveries?: DeviceDeliveryResult[];
+  scheduled?: boolean;
+  sendAt?: number;
+  queued?: boolean;
+  // Held until the user's quiet hours end, or delivered without sound
+  deferred?: boolean;
+  silent?: boolean;
+}
+
+export interface BatchRecipientResult {
+  userKey: string;
+  success: boolean;
+  // No device accepted it yet, but a retry is queued
+  queued?: boolean;
+  // Held until sendAt because the user is in quiet hours
+  deferred?: boolean;
+  sendAt?: number;
+  messageId?: string;
+  error?:
+    | "not_found"
+    | "permission_denied"
+    | "paused"
+    | "quota_exceeded"
+    | "template_error"
+    | "no_active_devices"
+    | "delivery_failed";
+  message?: string;
+  // The quota that stopped this recipient, with error "quota_exceeded"
+  quota?: QuotaExceeded;
+  deliveries?: DeviceDeliveryResult[];
+}
+
+export interface BatchNotificationResponse {
+  success: boolean;
+  batchId: string;
+  timestamp: number;
+  summary: {
+    total: number;
+    sent: number;
+    failed: number;
+  };
+  results: BatchRecipientResult[];
+}
+
+export interface TopicNotificationResponse extends BatchNotificationResponse {
+  topic: string;
+}
+
+export interface DeviceDeliveryResult {
+  deviceId: string;
+  platform?: DeviceInfo["platform"];
+  success: boolean;
+  providerMessageId?: string;
+  // Set when a transient failure was queued for another attempt
+  retrying?: boolean;
+  nextAttemptAt?: number;
+  error?: {
+    code: string;
+    message: string;
+  };
 }
 
 // Database types
 export interface UserSubscription {
   userKey: string;
   userId: string;
+  // True when userId is an identity key proven with a BRC-103 handshake
+  identityVerified?: boolean;
   origin: string;
-  fcmToken: string;
-  endpoint: string;
-  keys: {
+  // Single-device fields from before multi-device support; read via getDevices()
+  fcmToken?: string;
+  endpoint?: string;
+  keys?: {
     p256dh: string;
     auth: string;
   };
   deviceInfo?: DeviceInfo;
+  devices?: Record<string, DeviceRegistration>;
+  // Origin-scoped topic names, e.g. "coinflip.com/game-results"
+  topics?: string[];
+  // Earliest expirationTime among active devices, for the expiry sweep
+  nextExpirationAt?: number | null;
+  // Set while the user has paused all notifications, until pausedUntil if given
+  pausedAt?: number | null;
+  pausedUntil?: number | null;
+  // IANA timezone of the user's device, e.g. "Europe/Berlin"
+  timezone?: string;
+  quietHours?: QuietHours | null;
+  // Deliver every non-urgent notification silently while set
+  doNotDisturb?: boolean;
   permissions: Record<string, PermissionInfo>;
   createdAt: number;
   updatedAt: number;
   active: boolean;
 }
 
+export interface DeviceRegistration {
+  deviceId: string;
+  fcmToken?: string;
+  endpoint?: string;
+  keys?: {
+    p256dh: string;
+    auth: string;
+  };
+  deviceInfo?: DeviceInfo;
+  // PushSubscription.expirationTime in epoch milliseconds, if the browser set one
+  expirationTime?: number;
+  active: boolean;
+  // Set when the device is pruned because its token or endpoint stopped working
+  deactivatedAt?: number;
+  deactivationReason?: DeviceDeactivationReason;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Public key a site encrypts notification content to for one device
+export interface DeviceEncryptionKey {
+  deviceId: string;
+  platform?: DeviceInfo["platform"];
+  p256dh: string;
+}
+
+export type DeviceDeactivationReason = "invalid_token" | "expired";
+
+// Daily window, in the subscription's timezone, for holding back notifications
+export interface QuietHours {
+  // Local times as "HH:MM"; the window wraps past midnight when end < start
+  start: string;
+  end: string;
+  // Hold non-urgent notifications until the window ends, or deliver them silently
+  mode: "defer" | "silent";
+}
+
+// Who changed a permission: the user from their wallet, or the site
+export type ConsentSource = "user" | "site";
+
 export interface PermissionInfo {
   granted: boolean;
   timestamp: number;
+  // Who made the last change; only the user can undo a revocation
+  source?: ConsentSource;
 }
 
+// Scopes an API key can be granted; each route requires one of them
+export type ApiKeyPermission =
+  | "notifications:send"
+  | "notifications:batch"
+  | "notifications:read"
+  | "subscriptions:manage"
+  | "webhooks:manage"
+  | "admin";
+
 export interface ApiKeyInfo {
-  apiKey: string;
+  // Plaintext key on documents written before hashed storage; removed by migration
+  apiKey?: string;
+  // Non-secret identifier for managing the key through the admin API
+  keyId?: string;
+  // Salted SHA-256 of the key, its salt, and the first few characters of the
+  // key kept in clear for lookup
+  keyHash?: string;
+  keySalt?: string;
+  keyPrefix?: string;
+  name?: string;
   origin: string;
+  // Further origins the key may act for, selected with the Origin header
+  origins?: string[];
   permissions: string[];
   active: boolean;
   createdBy: string;
   createdAt: number;
+  updatedAt?: number;
   expiresAt?: number;
+  revokedAt?: number;
+  // Notification quotas overriding the server defaults
+  quotas?: NotificationQuotas;
+  // Request rate limits overriding the server defaults
+  rateLimits?: ApiKeyRateLimits;
+  // Version of the derived HMAC signing secret; unset until signing is enabled
+  signingSecretVersion?: number;
+  // Reject bearer use of this key so only signed requests are accepted
+  requireSignedRequests?: boolean;
+  // Site identity key allowed to authenticate as this key over BRC-103
+  identityKey?: string;
+  // keyId of the key this one was rotated into, and the reverse link
+  replacedBy?: string;
+  replaces?: string;
   environment?: "development" | "production";
 }
 
+// An API key as shown by the admin API, without the secret
+export type ApiKeySummary = Omit<ApiKeyInfo, "apiKey" | "keyHash" | "keySalt"> & {
+  keyId: string;
+  keyPreview: string;
+};
+
+// Notifications allowed per window; 0 means no limit
+export interface NotificationQuota {
+  hourly?: number;
+  daily?: number;
+}
+
+export interface NotificationQuotas {
+  // Across every user the origin notifies
+  origin?: NotificationQuota;
+  // For each user the origin notifies
+  user?: NotificationQuota;
+  // Data-only pushes, counted separately because users never see them
+  data?: {
+    origin?: NotificationQuota;
+    user?: NotificationQuota;
+  };
+}
+
+// Requests allowed per rate limit window, by kind of endpoint
+export interface ApiKeyRateLimits {
+  send?: number;
+  batch?: number;
+  subscriptions?: number;
+  general?: number;
+}
+
+export type RateLimitCategory = keyof ApiKeyRateLimits;
+
+// Hits from one client in its current rate limit window
+export interface RateLimitCounter {
+  hits: number;
+  // When the window ends; Firestore TTL can remove counters after this
+  resetAt: number;
+}
+
+// Nonce of a signed request, kept while the request's timestamp is accepted
+export interface RequestNonce {
+  keyId: string;
+  // When the nonce may be used again; Firestore TTL can remove nonces after this
+  expiresAt: number;
+}
+
+export type QuotaScope = "origin" | "user";
+
+export type QuotaWindow = "hour" | "day";
+
+// Visible notifications and data-only pushes have separate quotas
+export type QuotaKind = "notification" | "data";
+
+export interface QuotaExceeded {
+  kind: QuotaKind;
+  scope: QuotaScope;
+  window: QuotaWindow;
+  limit: number;
+  resetAt: number;
+}
+
+// Notifications counted against one quota in one fixed window
+export interface QuotaCounter {
+  kind?: QuotaKind;
+  scope: QuotaScope;
+  window: QuotaWindow;
+  origin: string;
+  userKey?: string;
+  windowStart: number;
+  count: number;
+  // When the window ends; Firestore TTL can remove counters after this
+  expiresAt: number;
+}
+
+export type NotificationStatus =
+  | "scheduled"
+  | "queued"
+  | "sent"
+  | "delivered"
+  | "clicked"
+  | "dismissed"
+  | "failed"
+  | "cancelled";
+
+export interface NotificationStatusEvent {
+  status: NotificationStatus;
+  timestamp: number;
+  deviceId?: string;
+  action?: string;
+  error?: {
+    code: string;
+    message: string;
+  };
+}
+
 export interface NotificationLog {
   messageId: string;
   userKey: string;
   origin: string;
+  // Empty for data-only pushes and encrypted notifications
   title: string;
   body: string;
-  timestamp: any; // Firestore timestamp
-  status: "sent" | "delivered" | "failed";
+  dataOnly?: boolean;
+  encrypted?: boolean;
+  timestamp: number;
+  status: NotificationStatus;
+  error?: {
+    code: string;
+    message: string;
+  };
+  history?: NotificationStatusEvent[];
+  updatedAt?: number;
+  // Incremented on every status change for optimistic concurrency
+  version?: number;
+}
+
+// Events the mobile app reports back after a push reaches the device
+export interface NotificationAckRequest {
+  event: "delivered" | "clicked" | "dismissed";
+  ackToken: string;
+  deviceId?: string;
+  // Action button tapped, for "clicked"
+  action?: string;
+  timestamp?: number;
+}
+
+// One push to one device, persisted until it succeeds or is dead-lettered
+export interface DeliveryJob {
+  jobId: string;
+  messageId: string;
+  userKey: string;
+  origin: string;
+  deviceId: string;
+  target: PushTarget;
+  payload: PushPayload;
+  status: "pending" | "processing";
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: number;
+  lockedUntil?: number;
+  lastError?: {
+    code: string;
+    message: string;
+  };
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface DeadLetter
+  extends Omit<DeliveryJob, "status" | "nextAttemptAt" | "lockedUntil"> {
+  deadAt: number;
+}
+
+export interface ScheduledNotification {
+  messageId: string;
+  userKey: string;
+  origin: string;
+  notification: NotificationPayload;
+  sendAt: number;
+  // Key that scheduled it, whose quotas apply when it is sent
+  keyId?: string;
+  priority?: NotificationPriority;
+  silent?: boolean;
+  tag?: string;
+  status: "pending" | "processing" | "sent" | "failed" | "cancelled";
+  // Until then a processing claim is held; after it, another worker may reclaim it
+  lockedUntil?: number;
+  createdAt: number;
+  updatedAt: number;
+  error?: string;
+}
+
+// Outcome of a /send request made with an Idempotency-Key
+export interface IdempotencyRecord {
+  origin: string;
+  // SHA-256 of the request body, so a key cannot be reused for another request
+  requestHash: string;
+  status: "processing" | "completed";
+  // Until then a processing claim blocks retries; after it, it is abandoned
+  lockedUntil: number;
+  statusCode?: number;
+  // JSON response body, replayed for repeats of the request
+  responseBody?: string;
+  createdAt: number;
+  // End of the replay window; Firestore TTL can remove records after this
+  expiresAt: number;
+}
+
+// Events an origin can receive at its webhooks
+export type WebhookEventType =
+  | "notification.sent"
+  | "notification.failed"
+  | "notification.delivered"
+  | "notification.clicked"
+  | "subscription.created"
+  | "subscription.revoked";
+
+// A URL an origin receives signed event callbacks at
+export interface WebhookEndpoint {
+  webhookId: string;
+  origin: string;
+  url: string;
+  events: WebhookEventType[];
+  // HMAC-SHA256 key for X-Webhook-Signature; only shown when the webhook is created
+  secret: string;
+  description?: string;
+  active: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// One event sent to one webhook. Doubles as the retry queue and the
+// delivery log the origin can read back.
+export interface WebhookDelivery {
+  deliveryId: string;
+  webhookId: string;
+  origin: string;
+  event: WebhookEventType | "webhook.test";
+  // JSON body, kept so every attempt sends the same bytes
+  body: string;
+  status: "pending" | "processing" | "succeeded" | "failed";
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: number;
+  // Until then a worker holds the delivery; after it, another may reclaim it
+  lockedUntil?: number;
+  // HTTP status of the last attempt, if the endpoint answered
+  responseStatus?: number;
+  lastError?: string;
+  createdAt: number;
+  updatedAt: number;
+  // End of the log's retention; Firestore TTL can remove records after this
+  expiresAt: number;
+}
+
+export interface EventLog {
+  type: string;
+  userKey?: string;
+  origin?: string;
+  timestamp: number;
+  [key: string]: unknown;
+}
+
+export type ApiKeyAuthMethod = "bearer" | "signature" | "identity";
+
+export interface ApiUsageLog {
+  // Plaintext key on records written before hashed storage; removed by migration
+  apiKey?: string;
+  keyId?: string;
+  keyPrefix?: string;
+  authMethod?: ApiKeyAuthMethod;
+  identityKey?: string;
+  origin: string;
+  endpoint: string;
+  method: string;
+  timestamp: number;
+  userAgent?: string | undefined;
+  ip?: string | undefined;
 }
 
 // Express extended request types
 export interface AuthenticatedRequest extends Request {
   origin?: string;
+  // Unparsed JSON body, kept for verifying signed requests
+  rawBody?: Buffer;
+  // Identity key proven by the BRC-103 handshake, for wallet routes
+  identityKey?: string;
   apiKeyInfo?: {
+    keyId?: string;
     origin: string;
     permissions: string[];
     createdBy: string;
     environment: "development" | "production";
+    // Site identity key, when the request was authenticated with it
+    identityKey?: string;
+    quotas?: NotificationQuotas;
+    rateLimits?: ApiKeyRateLimits;
   };
 }
 